@@ -5,11 +5,19 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import InvoiceManager from "@/pages/invoice-manager";
+import OverdueInvoices from "@/pages/overdue-invoices";
+import Settings from "@/pages/settings";
+import PendingWriteOffs from "@/pages/pending-write-offs";
+import WriteOffApprovals from "@/pages/write-off-approvals";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={InvoiceManager} />
+      <Route path="/overdue" component={OverdueInvoices} />
+      <Route path="/settings" component={Settings} />
+      <Route path="/write-offs" component={PendingWriteOffs} />
+      <Route path="/approvals" component={WriteOffApprovals} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,10 @@
+export { formatAmounts, formatCurrency } from "@shared/format";
+
+export function formatDate(v: string | null) {
+  if (!v) return "-";
+  return new Date(v).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -23,6 +23,17 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest throws "<status>: <body>", pull the JSON body back out when there is one
+export function parseApiError(e: Error): { message: string; body: any } {
+  const text = e.message.replace(/^\d+:\s*/, "");
+  try {
+    const body = JSON.parse(text);
+    return { message: body?.message || text, body };
+  } catch {
+    return { message: text, body: null };
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,11 +1,24 @@
 import { useMemo, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
+import { formatAmounts, formatCurrency, formatDate } from "@/lib/format";
+import { daysPastDue, isOverdue, type OverdueRule } from "@shared/overdue";
+import { filterDeals, filterInvoices } from "@shared/search";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -15,6 +28,24 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
 import {
   CheckCircle2,
   AlertCircle,
@@ -28,9 +59,44 @@ import {
   ChevronRight,
   AlertTriangle,
   Ban,
+  Undo2,
+  History,
+  Wrench,
+  Download,
+  FileDown,
+  Mail,
+  PauseCircle,
+  PlayCircle,
+  Send,
+  Scale,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import type { CompanyData, Deal, Invoice } from "@shared/schema";
+import {
+  type AgingReport,
+  type AuditEvent,
+  type BulkMarkBadDebtResponse,
+  type CompanyData,
+  type CompanyDunning,
+  type Deal,
+  type DisputeStatus,
+  type DunningEmail,
+  type DunningRun,
+  type DunningTemplateKey,
+  type Invoice,
+  type InvoiceDispute,
+  type MarkBadDebtResponse,
+  type SendDunningEmailResponse,
+  type SetupStatus,
+  type WriteOffCategory,
+  DISPUTE_STATUSES,
+  DISPUTE_STATUS_LABELS,
+  DUNNING_TEMPLATES,
+  DUNNING_TEMPLATE_LABELS,
+  dunningStageLabel,
+  isOpenDispute,
+  WRITE_OFF_CATEGORIES,
+  WRITE_OFF_CATEGORY_LABELS,
+} from "@shared/schema";
 
 const PAGE_SIZE = 10;
 
@@ -41,26 +107,6 @@ function getCompanyId(): string | null {
   return p.get("companyId");
 }
 
-function formatCurrency(v: string | number | null) {
-  if (v == null) return "-";
-  const n = typeof v === "number" ? v : Number(v);
-  if (Number.isNaN(n)) return String(v);
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: 0,
-  }).format(n);
-}
-
-function formatDate(v: string | null) {
-  if (!v) return "-";
-  return new Date(v).toLocaleDateString("en-US", {
-    year: "numeric",
-    month: "short",
-    day: "numeric",
-  });
-}
-
 function stageBadge(label: string) {
   const l = label.toLowerCase();
   const variant =
@@ -81,11 +127,6 @@ function invoiceStatusBadge(status: string) {
   return <Badge variant={map[status] ?? "outline"}>{status}</Badge>;
 }
 
-function isOverdue(i: Invoice) {
-  if (i.hs_invoice_status !== "open" || !i.hs_due_date) return false;
-  return new Date(i.hs_due_date) < new Date();
-}
-
 /* ---------- pagination ---------- */
 
 function Pagination({ page, pages, set }: any) {
@@ -101,16 +142,10 @@ function Pagination({ page, pages, set }: any) {
 
 /* ---------- tables ---------- */
 
-function DealsTable({ deals, loading, labels }: any) {
-  const [q, setQ] = useState("");
+function DealsTable({ deals, loading, labels, q, setQ }: any) {
   const [p, setP] = useState(1);
 
-  const f = useMemo(() => {
-    if (!q) return deals;
-    return deals.filter((d: Deal) =>
-      d.dealname.toLowerCase().includes(q.toLowerCase())
-    );
-  }, [deals, q]);
+  const f = useMemo(() => filterDeals(deals, q), [deals, q]);
 
   const pages = Math.ceil(f.length / PAGE_SIZE);
   const data = f.slice((p - 1) * PAGE_SIZE, p * PAGE_SIZE);
@@ -132,7 +167,7 @@ function DealsTable({ deals, loading, labels }: any) {
           {data.map((d: Deal) => (
             <TableRow key={d.id}>
               <TableCell>{d.dealname}</TableCell>
-              <TableCell>{formatCurrency(d.amount)}</TableCell>
+              <TableCell>{formatCurrency(d.amount, d.currency)}</TableCell>
               <TableCell>
                 {stageBadge(labels?.[d.dealstage] ?? d.dealstage)}
               </TableCell>
@@ -145,11 +180,1118 @@ function DealsTable({ deals, loading, labels }: any) {
   );
 }
 
+type WriteOffForm = { category: WriteOffCategory | ""; note: string; effectiveDate: string };
+
+const EMPTY_WRITE_OFF: WriteOffForm = { category: "", note: "", effectiveDate: "" };
+
+function toWriteOffDetails(form: WriteOffForm) {
+  return {
+    category: form.category,
+    note: form.note.trim() || undefined,
+    effectiveDate: form.effectiveDate || undefined,
+  };
+}
+
+function WriteOffFields({ value, onChange }: { value: WriteOffForm; onChange: (v: WriteOffForm) => void }) {
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label>Reason category</Label>
+        <Select
+          value={value.category}
+          onValueChange={v => onChange({ ...value, category: v as WriteOffCategory })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Select a category" />
+          </SelectTrigger>
+          <SelectContent>
+            {WRITE_OFF_CATEGORIES.map(c => (
+              <SelectItem key={c} value={c}>
+                {WRITE_OFF_CATEGORY_LABELS[c]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="writeOffNote">Note</Label>
+        <Textarea
+          id="writeOffNote"
+          placeholder="Optional, added to the invoice timeline"
+          value={value.note}
+          onChange={e => onChange({ ...value, note: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="writeOffEffectiveDate">Effective date</Label>
+        <Input
+          id="writeOffEffectiveDate"
+          type="date"
+          value={value.effectiveDate}
+          onChange={e => onChange({ ...value, effectiveDate: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+function ReminderDialog({
+  companyId,
+  invoice,
+  onClose,
+}: {
+  companyId: string;
+  invoice: Invoice | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [template, setTemplate] = useState<DunningTemplateKey>("first_reminder");
+  const [to, setTo] = useState("");
+
+  const { data: log } = useQuery<DunningEmail[]>({
+    queryKey: ["dunning-emails", companyId, invoice?.id],
+    enabled: !!invoice,
+    queryFn: async () =>
+      (
+        await apiRequest(
+          "GET",
+          `/api/company/${companyId}/dunning-emails?invoiceId=${invoice!.id}`
+        )
+      ).json(),
+  });
+
+  const close = () => {
+    setTo("");
+    setTemplate("first_reminder");
+    onClose();
+  };
+
+  const send = useMutation({
+    mutationFn: async () => {
+      const r = await apiRequest("POST", "/api/dunning/send", {
+        companyId,
+        invoiceId: invoice!.id,
+        template,
+        to: to.trim() || undefined,
+      });
+      return (await r.json()) as SendDunningEmailResponse;
+    },
+    onSuccess: res => {
+      toast({ title: res.message, description: res.warnings?.join(" · ") });
+      close();
+    },
+    onError: (e: Error) =>
+      toast({
+        variant: "destructive",
+        title: "Reminder not sent",
+        description: parseApiError(e).message,
+      }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["dunning-emails", companyId] });
+      queryClient.invalidateQueries({ queryKey: ["company", companyId, "dunning"] });
+    },
+  });
+
+  return (
+    <AlertDialog open={!!invoice} onOpenChange={open => !open && close()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Send payment reminder for {invoice?.hs_invoice_number || invoice?.id}?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            The email is sent with the template from Settings and logged on the
+            company's timeline in HubSpot.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Template</Label>
+            <Select value={template} onValueChange={v => setTemplate(v as DunningTemplateKey)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DUNNING_TEMPLATES.map(t => (
+                  <SelectItem key={t} value={t}>
+                    {DUNNING_TEMPLATE_LABELS[t]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reminderTo">Recipient</Label>
+            <Input
+              id="reminderTo"
+              type="email"
+              placeholder="Invoice or company contact"
+              value={to}
+              onChange={e => setTo(e.target.value)}
+            />
+          </div>
+          {!!log?.length && (
+            <div className="space-y-1 text-sm">
+              <Label>Sent before</Label>
+              <ul className="text-muted-foreground">
+                {log.map(e => (
+                  <li key={e.id}>
+                    {formatDate(String(e.createdAt))} · {DUNNING_TEMPLATE_LABELS[e.template]} to{" "}
+                    {e.recipient}
+                    {e.status === "failed" && (
+                      <span className="text-destructive"> (failed: {e.error})</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={send.isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={send.isPending}
+            onClick={e => {
+              e.preventDefault();
+              send.mutate();
+            }}
+          >
+            {send.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Send Reminder
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+function DisputeDialog({
+  companyId,
+  invoice,
+  dispute,
+  onClose,
+}: {
+  companyId: string;
+  invoice: Invoice;
+  dispute?: InvoiceDispute;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<DisputeStatus>(dispute?.status ?? "opened");
+  const [note, setNote] = useState(dispute?.note ?? "");
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const r = await apiRequest(
+        "PUT",
+        `/api/company/${companyId}/invoices/${invoice.id}/dispute`,
+        { status, note: note.trim() || undefined }
+      );
+      return (await r.json()) as InvoiceDispute;
+    },
+    onSuccess: res => {
+      toast({ title: `Dispute ${DISPUTE_STATUS_LABELS[res.status].toLowerCase()}` });
+      queryClient.invalidateQueries({ queryKey: ["company", companyId] });
+      onClose();
+    },
+    onError: (e: Error) =>
+      toast({
+        variant: "destructive",
+        title: "Dispute not saved",
+        description: parseApiError(e).message,
+      }),
+  });
+
+  return (
+    <AlertDialog open onOpenChange={open => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Dispute on invoice {invoice.hs_invoice_number || invoice.id}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            While a dispute is open the invoice isn't counted as overdue, written
+            off in bulk or sent reminders.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={v => setStatus(v as DisputeStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISPUTE_STATUSES.map(s => (
+                  <SelectItem key={s} value={s}>
+                    {DISPUTE_STATUS_LABELS[s]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="disputeNote">Notes</Label>
+            <Textarea
+              id="disputeNote"
+              placeholder="What the customer disputes, agreed next steps…"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+          </div>
+          {dispute && (
+            <p className="text-sm text-muted-foreground">
+              Opened {formatDate(String(dispute.createdAt))} · last changed{" "}
+              {formatDate(String(dispute.updatedAt))}
+            </p>
+          )}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={save.isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={save.isPending}
+            onClick={e => {
+              e.preventDefault();
+              save.mutate();
+            }}
+          >
+            {save.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+function InvoicesTable({ invoices, loading, companyId, overdueRule, q, setQ }: any) {
+  const { toast } = useToast();
+  const [p, setP] = useState(1);
+  const [target, setTarget] = useState<Invoice | null>(null);
+  const [undoTarget, setUndoTarget] = useState<Invoice | null>(null);
+  const [undoReason, setUndoReason] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmBulk, setConfirmBulk] = useState(false);
+  const [writeOff, setWriteOff] = useState<WriteOffForm>(EMPTY_WRITE_OFF);
+  const [remindTarget, setRemindTarget] = useState<Invoice | null>(null);
+  const [disputeTarget, setDisputeTarget] = useState<Invoice | null>(null);
+
+  const { data: disputes } = useQuery<InvoiceDispute[]>({
+    queryKey: ["company", companyId, "disputes"],
+    queryFn: async () =>
+      (await apiRequest("GET", `/api/company/${companyId}/disputes`)).json(),
+  });
+
+  const showResult = (res: MarkBadDebtResponse) => {
+    const parts = (res.objects ?? []).map(
+      o => `${o.objectType}: ${o.updated ? "updated" : "unchanged"}`
+    );
+    toast({
+      title: res.message || "Done",
+      description: parts.concat(res.warnings ?? []).join(" · "),
+    });
+    queryClient.invalidateQueries({ queryKey: ["company", companyId] });
+  };
+
+  const showFailure = (title: string) => (e: Error) => {
+    const { message, body } = parseApiError(e);
+    const details = Object.entries(
+      (body as MarkBadDebtResponse | null)?.errors ?? {}
+    ).map(([type, err]) => `${type}: ${err}`);
+    toast({
+      variant: "destructive",
+      title,
+      description: [message, ...details].join(" · "),
+    });
+    queryClient.invalidateQueries({ queryKey: ["company", companyId] });
+  };
+
+  const markBadDebt = useMutation({
+    mutationFn: async (i: Invoice) => {
+      const r = await apiRequest("POST", "/api/mark-invoice-bad-debt", {
+        companyId,
+        invoiceId: i.id,
+        dealId: i.dealId ?? null,
+        ...toWriteOffDetails(writeOff),
+      });
+      return (await r.json()) as MarkBadDebtResponse;
+    },
+    onSuccess: showResult,
+    onError: showFailure("Failed to mark bad debt"),
+    onSettled: () => {
+      setTarget(null);
+      setWriteOff(EMPTY_WRITE_OFF);
+    },
+  });
+
+  const unmarkBadDebt = useMutation({
+    mutationFn: async ({ invoice, reason }: { invoice: Invoice; reason: string }) => {
+      const r = await apiRequest("POST", "/api/unmark-invoice-bad-debt", {
+        companyId,
+        invoiceId: invoice.id,
+        dealId: invoice.dealId ?? null,
+        reason,
+      });
+      return (await r.json()) as MarkBadDebtResponse;
+    },
+    onSuccess: showResult,
+    onError: showFailure("Failed to undo bad debt"),
+    onSettled: () => {
+      setUndoTarget(null);
+      setUndoReason("");
+    },
+  });
+
+  const bulkMarkBadDebt = useMutation({
+    mutationFn: async (invoiceIds: string[]) => {
+      const r = await apiRequest("POST", "/api/bulk-mark-invoice-bad-debt", {
+        companyId,
+        invoiceIds,
+        ...toWriteOffDetails(writeOff),
+      });
+      return (await r.json()) as BulkMarkBadDebtResponse;
+    },
+    onSuccess: (res) => {
+      const failed = res.results.filter(r => !r.success);
+      toast({
+        variant: failed.length ? "destructive" : "default",
+        title: res.message,
+        description: failed
+          .map(r => `${r.invoiceNumber || r.invoiceId}: ${r.message}`)
+          .concat(res.companyError ? [`company: ${res.companyError}`] : [])
+          .concat(res.results.flatMap(r => r.warnings ?? []))
+          .join(" · "),
+      });
+      setSelected(new Set());
+      queryClient.invalidateQueries({ queryKey: ["company", companyId] });
+    },
+    onError: showFailure("Bulk write-off failed"),
+    onSettled: () => {
+      setConfirmBulk(false);
+      setWriteOff(EMPTY_WRITE_OFF);
+    },
+  });
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+
+  const selectAllOverdue = () => {
+    setSelected(
+      new Set(
+        invoices
+          .filter((i: Invoice) => isOverdue(i, overdueRule) && i.bad_debt !== "true")
+          .map((i: Invoice) => i.id)
+      )
+    );
+  };
+
+  const f = useMemo(() => filterInvoices(invoices, q), [invoices, q]);
+
+  const pages = Math.ceil(f.length / PAGE_SIZE);
+  const data = f.slice((p - 1) * PAGE_SIZE, p * PAGE_SIZE);
+
+  if (loading) return <Skeleton className="h-32" />;
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <Input placeholder="Search invoices" value={q} onChange={e => setQ(e.target.value)} />
+        <Button variant="outline" onClick={selectAllOverdue}>
+          Select all overdue
+        </Button>
+        <Button
+          variant="destructive"
+          disabled={selected.size === 0 || bulkMarkBadDebt.isPending}
+          onClick={() => setConfirmBulk(true)}
+        >
+          Write off selected ({selected.size})
+        </Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            <TableHead>Number</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Due Date</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Deal</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.map((i: Invoice) => {
+            const overdue = isOverdue(i, overdueRule as OverdueRule | undefined);
+            const isBadDebt = i.bad_debt === "true";
+            const disputed = isOpenDispute(i.dispute);
+            return (
+              <TableRow key={i.id} className={overdue ? "bg-destructive/10" : undefined}>
+                <TableCell>
+                  <Checkbox
+                    disabled={isBadDebt || disputed}
+                    checked={selected.has(i.id)}
+                    onCheckedChange={c => toggleSelected(i.id, c === true)}
+                  />
+                </TableCell>
+                <TableCell>{i.hs_invoice_number || i.id}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    {invoiceStatusBadge(i.hs_invoice_status)}
+                    {overdue && (
+                      <Badge variant="destructive">
+                        <AlertTriangle className="h-3 w-3 mr-1" /> overdue
+                      </Badge>
+                    )}
+                    {disputed && (
+                      <Badge variant="secondary">
+                        <Scale className="h-3 w-3 mr-1" /> Disputed
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>{formatDate(i.hs_due_date)}</TableCell>
+                <TableCell>{formatCurrency(i.amount, i.currency)}</TableCell>
+                <TableCell>{i.dealName ?? "-"}</TableCell>
+                <TableCell className="text-right">
+                  {isBadDebt ? (
+                    <div className="flex items-center justify-end gap-2">
+                      <Badge variant="outline">
+                        <Ban className="h-3 w-3 mr-1" /> Bad debt
+                      </Badge>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={unmarkBadDebt.isPending}
+                        onClick={() => setUndoTarget(i)}
+                      >
+                        <Undo2 className="h-3 w-3 mr-1" /> Undo
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-end gap-2">
+                      {overdue && (
+                        <Button size="sm" variant="outline" onClick={() => setRemindTarget(i)}>
+                          <Mail className="h-3 w-3 mr-1" /> Send reminder
+                        </Button>
+                      )}
+                      {i.hs_invoice_status.toLowerCase() === "open" && (
+                        <Button size="sm" variant="outline" onClick={() => setDisputeTarget(i)}>
+                          <Scale className="h-3 w-3 mr-1" /> Dispute
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={markBadDebt.isPending}
+                        onClick={() => setTarget(i)}
+                      >
+                        Mark Bad Debt
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      <Pagination page={p} pages={pages} set={setP} />
+
+      <ReminderDialog
+        companyId={companyId}
+        invoice={remindTarget}
+        onClose={() => setRemindTarget(null)}
+      />
+
+      {disputeTarget && (
+        <DisputeDialog
+          key={disputeTarget.id}
+          companyId={companyId}
+          invoice={disputeTarget}
+          dispute={disputes?.find(d => d.invoiceId === disputeTarget.id)}
+          onClose={() => setDisputeTarget(null)}
+        />
+      )}
+
+      <AlertDialog
+        open={!!target}
+        onOpenChange={open => {
+          if (!open) {
+            setTarget(null);
+            setWriteOff(EMPTY_WRITE_OFF);
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mark invoice as bad debt?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Invoice {target?.hs_invoice_number || target?.id} will be flagged
+              as bad debt, together with its linked deal
+              {target?.dealName ? ` (${target.dealName})` : ""} and the company.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <WriteOffFields value={writeOff} onChange={setWriteOff} />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={markBadDebt.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={markBadDebt.isPending || !writeOff.category}
+              onClick={e => {
+                e.preventDefault();
+                if (target) markBadDebt.mutate(target);
+              }}
+            >
+              {markBadDebt.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Mark Bad Debt
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={confirmBulk}
+        onOpenChange={open => {
+          setConfirmBulk(open);
+          if (!open) setWriteOff(EMPTY_WRITE_OFF);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Write off {selected.size} invoice(s) as bad debt?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Each selected invoice and its linked deal will be flagged as bad
+              debt, and the company will be flagged once at the end.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <WriteOffFields value={writeOff} onChange={setWriteOff} />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={bulkMarkBadDebt.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={bulkMarkBadDebt.isPending || !writeOff.category}
+              onClick={e => {
+                e.preventDefault();
+                bulkMarkBadDebt.mutate(Array.from(selected));
+              }}
+            >
+              {bulkMarkBadDebt.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Write Off
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={!!undoTarget}
+        onOpenChange={open => {
+          if (!open) {
+            setUndoTarget(null);
+            setUndoReason("");
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Undo bad debt write-off?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Invoice {undoTarget?.hs_invoice_number || undoTarget?.id} will no
+              longer be bad debt. The deal and company are only cleared when no
+              other invoice is still bad debt.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            placeholder="Reason (required)"
+            value={undoReason}
+            onChange={e => setUndoReason(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={unmarkBadDebt.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={unmarkBadDebt.isPending || !undoReason.trim()}
+              onClick={e => {
+                e.preventDefault();
+                if (undoTarget) {
+                  unmarkBadDebt.mutate({ invoice: undoTarget, reason: undoReason.trim() });
+                }
+              }}
+            >
+              {unmarkBadDebt.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Undo Write-off
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+function AgingSummary({ aging, loading }: { aging?: AgingReport; loading: boolean }) {
+  if (loading) return <Skeleton className="h-24 mb-4" />;
+  if (!aging) return null;
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <DollarSign className="h-4 w-4" /> Receivables aging
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-4 gap-4">
+          {aging.buckets.map(b => (
+            <div key={b.label}>
+              <div className="text-xs text-muted-foreground">{b.label} days</div>
+              <div className="font-semibold">{formatAmounts(b.amounts)}</div>
+              <div className="text-xs text-muted-foreground">{b.count} invoice(s)</div>
+            </div>
+          ))}
+        </div>
+        <Separator className="my-3" />
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <div className="text-xs text-muted-foreground">Total outstanding</div>
+            <div className="font-semibold">
+              {formatAmounts(aging.totalOutstanding.amounts)} ({aging.totalOutstanding.count})
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Written off as bad debt</div>
+            <div className="font-semibold">
+              {formatAmounts(aging.writtenOff.amounts)} ({aging.writtenOff.count})
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">Oldest overdue</div>
+            <div className="font-semibold">
+              {aging.oldestOverdue
+                ? `${aging.oldestOverdue.invoiceNumber || aging.oldestOverdue.invoiceId} · ${aging.oldestOverdue.daysPastDue} days`
+                : "-"}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function AuditHistory({ companyId }: { companyId: string }) {
+  const { data, isLoading } = useQuery<AuditEvent[]>({
+    queryKey: ["company", companyId, "audit"],
+    queryFn: async () =>
+      (await apiRequest("GET", `/api/company/${companyId}/audit`)).json(),
+  });
+
+  if (isLoading) return <Skeleton className="h-32" />;
+
+  if (!data?.length) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">
+        No bad debt changes recorded yet.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Object</TableHead>
+          <TableHead>Change</TableHead>
+          <TableHead>User</TableHead>
+          <TableHead>Reason</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {data.map(e => (
+          <TableRow key={e.id}>
+            <TableCell>{new Date(e.createdAt).toLocaleString("en-US")}</TableCell>
+            <TableCell>{e.objectType} {e.objectId}</TableCell>
+            <TableCell>
+              {e.oldValue || "(empty)"} → {e.newValue || "(empty)"}
+            </TableCell>
+            <TableCell>{e.hubspotUserId ?? "-"}</TableCell>
+            <TableCell>{e.reason ?? "-"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function DunningPanel({
+  companyId,
+  invoices,
+  overdueRule,
+}: {
+  companyId: string;
+  invoices: Invoice[];
+  overdueRule?: OverdueRule;
+}) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [dryRun, setDryRun] = useState(false);
+
+  const { data, isLoading } = useQuery<CompanyDunning>({
+    queryKey: ["company", companyId, "dunning"],
+    queryFn: async () =>
+      (await apiRequest("GET", `/api/company/${companyId}/dunning`)).json(),
+  });
+
+  const showError = (title: string) => (e: Error) =>
+    toast({ variant: "destructive", title, description: parseApiError(e).message });
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: ["company", companyId, "dunning"] });
+
+  const pause = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/company/${companyId}/dunning/pause`, {
+        reason: reason.trim() || undefined,
+      }),
+    onSuccess: () => {
+      setReason("");
+      toast({ title: "Dunning paused" });
+    },
+    onError: showError("Could not pause dunning"),
+    onSettled: refresh,
+  });
+
+  const resume = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/company/${companyId}/dunning/pause`),
+    onSuccess: () => toast({ title: "Dunning resumed" }),
+    onError: showError("Could not resume dunning"),
+    onSettled: refresh,
+  });
+
+  const run = useMutation({
+    mutationFn: async () => {
+      const r = await apiRequest("POST", `/api/company/${companyId}/dunning/run`, { dryRun });
+      return (await r.json()) as DunningRun;
+    },
+    onSuccess: res => {
+      toast({
+        title: res.dryRun
+          ? `${res.items.length} stage(s) due`
+          : `${res.items.length} stage(s) carried out`,
+        description: res.items
+          .map(i => `${i.invoiceNumber || i.invoiceId}: ${i.message ?? i.status}`)
+          .join(" · "),
+      });
+      if (!res.dryRun) queryClient.invalidateQueries({ queryKey: ["company", companyId] });
+    },
+    onError: showError("Dunning run failed"),
+  });
+
+  const states = new Map((data?.states ?? []).map(s => [s.invoiceId, s]));
+  const events = data?.events ?? [];
+  const rows = invoices.filter(
+    i =>
+      states.has(i.id) ||
+      events.some(e => e.invoiceId === i.id) ||
+      (i.hs_invoice_status.toLowerCase() === "open" && i.bad_debt !== "true" && i.hs_due_date)
+  );
+
+  if (isLoading) return <Skeleton className="h-32" />;
+
+  return (
+    <div className="space-y-4 py-2">
+      {data?.pause ? (
+        <Alert>
+          <PauseCircle className="h-4 w-4" />
+          <AlertTitle>Dunning paused</AlertTitle>
+          <AlertDescription className="flex items-center justify-between gap-2">
+            <span>
+              Since {formatDate(String(data.pause.createdAt))}
+              {data.pause.reason && ` · ${data.pause.reason}`}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={resume.isPending}
+              onClick={() => resume.mutate()}
+            >
+              <PlayCircle className="h-4 w-4 mr-1" /> Resume
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            className="max-w-sm"
+            placeholder="Reason for pausing (e.g. invoice disputed)"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+          />
+          <Button variant="outline" disabled={pause.isPending} onClick={() => pause.mutate()}>
+            <PauseCircle className="h-4 w-4 mr-1" /> Pause Dunning
+          </Button>
+          <div className="flex items-center gap-2 ml-auto">
+            <Checkbox
+              id="dunningDryRun"
+              checked={dryRun}
+              onCheckedChange={v => setDryRun(v === true)}
+            />
+            <Label htmlFor="dunningDryRun">Dry run</Label>
+            <Button disabled={run.isPending} onClick={() => run.mutate()}>
+              {run.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Run Now
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!rows.length ? (
+        <p className="text-sm text-muted-foreground py-4">No open invoices to chase.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invoice</TableHead>
+              <TableHead>Days Overdue</TableHead>
+              <TableHead>Current Stage</TableHead>
+              <TableHead>Timeline</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(i => {
+              const state = states.get(i.id);
+              const timeline = events.filter(e => e.invoiceId === i.id).reverse();
+              return (
+                <TableRow key={i.id}>
+                  <TableCell>{i.hs_invoice_number || i.id}</TableCell>
+                  <TableCell>
+                    {i.hs_due_date ? Math.max(0, daysPastDue(i.hs_due_date, overdueRule)) : "-"}
+                  </TableCell>
+                  <TableCell>
+                    {isOpenDispute(i.dispute) ? (
+                      <Badge variant="secondary">
+                        <Scale className="h-3 w-3 mr-1" /> Disputed
+                      </Badge>
+                    ) : state ? (
+                      <Badge variant="outline">
+                        Day {state.stageDay} · {dunningStageLabel(state)}
+                      </Badge>
+                    ) : (
+                      <span className="text-muted-foreground">Not started</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {timeline.length ? (
+                      <ol className="text-sm space-y-1">
+                        {timeline.map(e => (
+                          <li key={e.id}>
+                            {formatDate(String(e.createdAt))} ·{" "}
+                            {e.stageDay === null ? "Manual" : `Day ${e.stageDay}`} · {e.message}
+                            {e.status !== "done" && (
+                              <span
+                                className={
+                                  e.status === "failed"
+                                    ? "text-destructive"
+                                    : "text-muted-foreground"
+                                }
+                              >
+                                {" "}({e.status})
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+async function download(url: string) {
+  const r = await apiRequest("GET", url);
+  const name = /filename="([^"]+)"/.exec(r.headers.get("Content-Disposition") ?? "")?.[1];
+  const href = URL.createObjectURL(await r.blob());
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = name || "export";
+  a.click();
+  URL.revokeObjectURL(href);
+}
+
+function ExportMenu({
+  companyId,
+  invoiceSearch,
+  dealSearch,
+  disabled,
+}: {
+  companyId: string;
+  invoiceSearch: string;
+  dealSearch: string;
+  disabled: boolean;
+}) {
+  const { toast } = useToast();
+
+  const exportFile = useMutation({
+    mutationFn: (params: { format: "csv" | "xlsx"; sheet?: "invoices" | "deals" }) => {
+      const query = new URLSearchParams({ ...params, invoiceSearch, dealSearch });
+      return download(`/api/company/${companyId}/export?${query}`);
+    },
+    onError: (e: Error) =>
+      toast({
+        title: "Export failed",
+        description: parseApiError(e).message,
+        variant: "destructive",
+      }),
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || exportFile.isPending}>
+          {exportFile.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-1" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => exportFile.mutate({ format: "xlsx" })}>
+          Excel (invoices and deals)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportFile.mutate({ format: "csv", sheet: "invoices" })}>
+          CSV – invoices
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportFile.mutate({ format: "csv", sheet: "deals" })}>
+          CSV – deals
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function StatementButton({ companyId, disabled }: { companyId: string; disabled: boolean }) {
+  const { toast } = useToast();
+
+  const statement = useMutation({
+    mutationFn: () => download(`/api/company/${companyId}/statement`),
+    onError: (e: Error) =>
+      toast({
+        title: "Statement failed",
+        description: parseApiError(e).message,
+        variant: "destructive",
+      }),
+  });
+
+  return (
+    <Button
+      variant="outline"
+      disabled={disabled || statement.isPending}
+      onClick={() => statement.mutate()}
+    >
+      {statement.isPending ? (
+        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+      ) : (
+        <FileDown className="h-4 w-4 mr-1" />
+      )}
+      Statement
+    </Button>
+  );
+}
+
+function SetupBanner() {
+  const { toast } = useToast();
+
+  const { data } = useQuery<SetupStatus>({
+    queryKey: ["setup-status"],
+    queryFn: async () => (await apiRequest("GET", "/api/setup/status")).json(),
+    refetchInterval: (query) =>
+      query.state.data?.state === "pending" ? 2000 : false,
+  });
+
+  const provision = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", "/api/setup/provision")).json(),
+    onError: (e: Error) =>
+      toast({
+        title: "Property setup failed",
+        description: parseApiError(e).message,
+        variant: "destructive",
+      }),
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: ["setup-status"] }),
+  });
+
+  if (!data || data.state === "complete") return null;
+
+  if (data.state === "pending") {
+    return (
+      <Alert className="mb-4">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <AlertTitle>Setting up HubSpot properties</AlertTitle>
+        <AlertDescription>
+          Creating the <code>{data.property}</code> property on invoices, deals
+          and companies…
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const problems = data.objects.filter(
+    o => o.status === "missing" || o.status === "failed"
+  );
+
+  return (
+    <Alert variant="destructive" className="mb-4">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>
+        The <code>{data.property}</code> property is not set up
+      </AlertTitle>
+      <AlertDescription className="space-y-2">
+        <ul className="list-disc pl-4">
+          {problems.map(o => (
+            <li key={`${o.objectType}:${o.property}`}>
+              {o.objectType} <code>{o.property}</code>:{" "}
+              {o.status === "missing" ? "missing" : o.error}
+            </li>
+          ))}
+        </ul>
+        <p>Bad debt changes on these records will fail until it exists.</p>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={provision.isPending}
+          onClick={() => provision.mutate()}
+        >
+          {provision.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Wrench className="h-4 w-4 mr-1" />
+          )}
+          Create properties
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
 /* ---------- page ---------- */
 
 export default function InvoiceManager() {
   const companyId = getCompanyId();
   const [needsConnect, setNeedsConnect] = useState(false);
+  const [invoiceSearch, setInvoiceSearch] = useState("");
+  const [dealSearch, setDealSearch] = useState("");
 
   const { data: stageLabels } = useQuery({
     queryKey: ["deal-stage-labels"],
@@ -186,9 +1328,18 @@ export default function InvoiceManager() {
         <CardTitle className="flex items-center gap-2">
           <Building2 /> Invoice Manager
         </CardTitle>
-        <Button size="icon" onClick={() => refetch()}>
-          <RefreshCw />
-        </Button>
+        <div className="flex items-center gap-2">
+          <StatementButton companyId={companyId} disabled={needsConnect || !data} />
+          <ExportMenu
+            companyId={companyId}
+            invoiceSearch={invoiceSearch}
+            dealSearch={dealSearch}
+            disabled={needsConnect || !data}
+          />
+          <Button size="icon" onClick={() => refetch()}>
+            <RefreshCw />
+          </Button>
+        </div>
       </CardHeader>
 
       <CardContent>
@@ -203,16 +1354,74 @@ export default function InvoiceManager() {
           </Alert>
         )}
 
+        {!needsConnect && <SetupBanner />}
+
+        {!needsConnect && data?.truncated && (
+          <Alert className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Partial data</AlertTitle>
+            <AlertDescription>
+              This company has more deals or invoices than can be loaded at once.
+              Some records, and the overdue count, may be incomplete.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {!needsConnect && (
-          <>
-            <Separator />
-            <h3 className="font-semibold mt-4">Deals</h3>
-            <DealsTable
-              deals={data?.deals ?? []}
-              loading={isLoading}
-              labels={stageLabels}
-            />
-          </>
+          <AgingSummary aging={data?.aging} loading={isLoading} />
+        )}
+
+        {!needsConnect && (
+          <Tabs defaultValue="overview">
+            <TabsList>
+              <TabsTrigger value="overview">Invoices &amp; Deals</TabsTrigger>
+              <TabsTrigger value="dunning">
+                <Send className="h-4 w-4 mr-1" /> Dunning
+              </TabsTrigger>
+              <TabsTrigger value="history">
+                <History className="h-4 w-4 mr-1" /> History
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview">
+              <h3 className="font-semibold flex items-center gap-2">
+                <FileText className="h-4 w-4" /> Invoices
+                {!!data?.overdueCount && (
+                  <Badge variant="destructive">{data.overdueCount} overdue</Badge>
+                )}
+              </h3>
+              <InvoicesTable
+                invoices={data?.invoices ?? []}
+                loading={isLoading}
+                companyId={companyId}
+                overdueRule={data?.overdueRule}
+                q={invoiceSearch}
+                setQ={setInvoiceSearch}
+              />
+
+              <Separator className="mt-4" />
+              <h3 className="font-semibold mt-4">Deals</h3>
+              <DealsTable
+                deals={data?.deals ?? []}
+                loading={isLoading}
+                labels={stageLabels}
+                q={dealSearch}
+                setQ={setDealSearch}
+              />
+            </TabsContent>
+
+            <TabsContent value="dunning">
+              <DunningPanel
+                companyId={companyId}
+                invoices={data?.invoices ?? []}
+                overdueRule={data?.overdueRule}
+              />
+            </TabsContent>
+
+            <TabsContent value="history">
+              <AuditHistory companyId={companyId} />
+            </TabsContent>
+          </Tabs>
         )}
       </CardContent>
     </Card>
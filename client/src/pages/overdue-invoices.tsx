@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/format";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Ban, RefreshCw } from "lucide-react";
+import type { OverdueInvoice, OverdueInvoicesResponse } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+type Sort = "daysOverdue" | "amount";
+
+/* ---------- page ---------- */
+
+export default function OverdueInvoices() {
+  const [sort, setSort] = useState<Sort>("daysOverdue");
+  // cursors of the pages we've been on, so Prev can go back
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const after = cursors[cursors.length - 1];
+
+  const { data, isLoading, error, refetch } = useQuery<OverdueInvoicesResponse>({
+    queryKey: ["invoices-overdue", sort, after],
+    queryFn: async () => {
+      const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE) });
+      if (after) params.set("after", after);
+      return (await apiRequest("GET", `/api/invoices/overdue?${params}`)).json();
+    },
+  });
+
+  const changeSort = (v: string) => {
+    setSort(v as Sort);
+    setCursors([undefined]);
+  };
+
+  const notConnected = error && (error as Error).message.startsWith("401");
+
+  return (
+    <Card className="m-4">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle /> Overdue invoices
+          {data && <Badge variant="destructive">{data.total}</Badge>}
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={sort} onValueChange={changeSort}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daysOverdue">Most days overdue</SelectItem>
+              <SelectItem value="amount">Largest amount</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button size="icon" onClick={() => refetch()}>
+            <RefreshCw />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {notConnected && (
+          <Alert variant="destructive">
+            <AlertTitle>Not connected</AlertTitle>
+            <AlertDescription>
+              <a href="/auth/hubspot" className="underline">
+                Connect to HubSpot
+              </a>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && !notConnected && (
+          <Alert variant="destructive">
+            <AlertTitle>Failed to load overdue invoices</AlertTitle>
+            <AlertDescription>{parseApiError(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && <Skeleton className="h-32" />}
+
+        {data && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Due Date</TableHead>
+                  <TableHead>Days Overdue</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.results.map((i: OverdueInvoice) => (
+                  <TableRow key={i.id}>
+                    <TableCell>
+                      {i.companyId ? (
+                        <Link href={`/?companyId=${i.companyId}`} className="underline">
+                          {i.companyName || i.companyId}
+                        </Link>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    <TableCell>{i.hs_invoice_number || i.id}</TableCell>
+                    <TableCell>{formatDate(i.hs_due_date)}</TableCell>
+                    <TableCell>{i.daysPastDue}</TableCell>
+                    <TableCell>{formatCurrency(i.amount, i.currency)}</TableCell>
+                    <TableCell className="text-right">
+                      {i.bad_debt === "true" && (
+                        <Badge variant="outline">
+                          <Ban className="h-3 w-3 mr-1" /> Bad debt
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex justify-between pt-4">
+              <Button
+                disabled={cursors.length === 1}
+                onClick={() => setCursors(cursors.slice(0, -1))}
+              >
+                Prev
+              </Button>
+              <span>Page {cursors.length}</span>
+              <Button
+                disabled={!data.nextAfter}
+                onClick={() => setCursors([...cursors, data.nextAfter!])}
+              >
+                Next
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/format";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ClipboardList, RefreshCw } from "lucide-react";
+import type { BulkMarkBadDebtResponse, PendingWriteOff } from "@shared/schema";
+
+/* ---------- page ---------- */
+
+export default function PendingWriteOffs() {
+  const { toast } = useToast();
+
+  const { data, isLoading, error, refetch } = useQuery<PendingWriteOff[]>({
+    queryKey: ["write-offs-pending"],
+    queryFn: async () => (await apiRequest("GET", "/api/write-offs/pending")).json(),
+  });
+
+  const onSettled = () =>
+    queryClient.invalidateQueries({ queryKey: ["write-offs-pending"] });
+
+  const apply = useMutation({
+    mutationFn: async (id: number) =>
+      (await apiRequest("POST", `/api/write-offs/pending/${id}/apply`)).json(),
+    onSuccess: (r: BulkMarkBadDebtResponse) =>
+      toast({ title: "Written off", description: r.message }),
+    onError: (e: Error) =>
+      toast({
+        title: "Write-off failed",
+        description: parseApiError(e).message,
+        variant: "destructive",
+      }),
+    onSettled,
+  });
+
+  const dismiss = useMutation({
+    mutationFn: async (id: number) =>
+      (await apiRequest("DELETE", `/api/write-offs/pending/${id}`)).json(),
+    onError: (e: Error) =>
+      toast({
+        title: "Failed to dismiss",
+        description: parseApiError(e).message,
+        variant: "destructive",
+      }),
+    onSettled,
+  });
+
+  const notConnected = error && (error as Error).message.startsWith("401");
+  const busy = apply.isPending || dismiss.isPending;
+
+  return (
+    <Card className="m-4">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList /> Pending write-off review
+          {!!data?.length && <Badge variant="secondary">{data.length}</Badge>}
+        </CardTitle>
+        <Button size="icon" onClick={() => refetch()}>
+          <RefreshCw />
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {notConnected && (
+          <Alert variant="destructive">
+            <AlertTitle>Not connected</AlertTitle>
+            <AlertDescription>
+              <a href="/auth/hubspot" className="underline">
+                Connect to HubSpot
+              </a>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && !notConnected && (
+          <Alert variant="destructive">
+            <AlertTitle>Failed to load pending write-offs</AlertTitle>
+            <AlertDescription>{parseApiError(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && <Skeleton className="h-32" />}
+
+        {data && data.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4">
+            Nothing to review. Invoices queued by the scheduled auto write-off show up here.
+          </p>
+        )}
+
+        {!!data?.length && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Company</TableHead>
+                <TableHead>Number</TableHead>
+                <TableHead>Due Date</TableHead>
+                <TableHead>Days Overdue</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Queued</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.map((p) => (
+                <TableRow key={p.id}>
+                  <TableCell>
+                    <Link href={`/?companyId=${p.companyId}`} className="underline">
+                      {p.companyId}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{p.invoiceNumber || p.invoiceId}</TableCell>
+                  <TableCell>{formatDate(p.dueDate)}</TableCell>
+                  <TableCell>{p.daysPastDue}</TableCell>
+                  <TableCell>{formatCurrency(p.amount, p.currency)}</TableCell>
+                  <TableCell>{formatDate(String(p.createdAt))}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={busy}
+                      onClick={() => apply.mutate(p.id)}
+                    >
+                      Write off
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busy}
+                      onClick={() => dismiss.mutate(p.id)}
+                    >
+                      Dismiss
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,662 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency } from "@/lib/format";
+import { Play, Settings as SettingsIcon } from "lucide-react";
+import {
+  type AutoWriteOffRun,
+  type AutoWriteOffSettings,
+  type PortalSettings,
+  type PropertyMapping,
+  type StatementSettings,
+  type DunningSettings,
+  type DunningStage,
+  type DunningTemplate,
+  type DunningTemplateKey,
+  DUNNING_ACTIONS,
+  DUNNING_ACTION_LABELS,
+  DUNNING_MERGE_FIELDS,
+  DUNNING_TEMPLATES,
+  DUNNING_TEMPLATE_LABELS,
+  MAX_STATEMENT_LOGO_LENGTH,
+} from "@shared/schema";
+
+const PROPERTY_FIELDS: { key: keyof PropertyMapping; label: string }[] = [
+  { key: "badDebt", label: "Bad debt flag property" },
+  { key: "badDebtCategory", label: "Write-off category property" },
+  { key: "badDebtNote", label: "Write-off note property" },
+  { key: "badDebtEffectiveDate", label: "Write-off effective date property" },
+  { key: "invoiceNumber", label: "Invoice number property" },
+  { key: "invoiceStatus", label: "Invoice status property" },
+  { key: "invoiceOpenStatus", label: "Status value meaning “open”" },
+  { key: "invoiceDueDate", label: "Invoice due date property" },
+  { key: "invoiceAmount", label: "Invoice amount property" },
+  { key: "invoiceCurrency", label: "Invoice currency property" },
+];
+
+const ACTION_LABELS: Record<string, [string, string]> = {
+  // action: [done, dry run]
+  flagged: ["Written off", "Would write off"],
+  queued: ["Queued for review", "Would queue"],
+  requested: ["Sent for approval", "Would send for approval"],
+  skipped: ["Skipped", "Would skip"],
+  failed: ["Failed", "Failed"],
+};
+
+function AutoWriteOffRunReport() {
+  const { toast } = useToast();
+
+  const { data: run } = useQuery<AutoWriteOffRun | null>({
+    queryKey: ["auto-write-off-run"],
+    queryFn: async () =>
+      (await apiRequest("GET", "/api/auto-write-off/runs/latest")).json(),
+  });
+
+  const runNow = useMutation({
+    mutationFn: async (dryRun: boolean) =>
+      (await apiRequest("POST", "/api/auto-write-off/run", { dryRun })).json(),
+    onSuccess: (result: AutoWriteOffRun) => {
+      queryClient.setQueryData(["auto-write-off-run"], result);
+      queryClient.invalidateQueries({ queryKey: ["write-offs-pending"] });
+    },
+    onError: (e: Error) =>
+      toast({
+        title: "Auto write-off run failed",
+        description: parseApiError(e).message,
+        variant: "destructive",
+      }),
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          disabled={runNow.isPending}
+          onClick={() => runNow.mutate(true)}
+        >
+          <Play className="h-4 w-4 mr-1" /> Dry run now
+        </Button>
+        <Button
+          type="button"
+          variant="destructive"
+          disabled={runNow.isPending}
+          onClick={() => runNow.mutate(false)}
+        >
+          <Play className="h-4 w-4 mr-1" /> Run now
+        </Button>
+      </div>
+
+      {run && (
+        <div className="space-y-2 text-sm">
+          <p className="text-muted-foreground">
+            Last run {new Date(run.startedAt).toLocaleString("en-US")} (
+            {[
+              run.trigger,
+              run.mode === "flag" ? "write off" : "queue for review",
+              `more than ${run.overdueDays} days overdue`,
+            ].join(", ")}
+            )
+            {run.dryRun && <Badge variant="outline" className="ml-2">Dry run</Badge>}
+          </p>
+          {run.error && <p className="text-destructive">{run.error}</p>}
+          {run.truncated && (
+            <p className="text-muted-foreground">
+              More invoices matched than one run handles; the rest are picked up next time.
+            </p>
+          )}
+          {!run.error && run.items.length === 0 && (
+            <p className="text-muted-foreground">No invoices matched.</p>
+          )}
+          {run.items.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Days Overdue</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {run.items.map((i) => (
+                  <TableRow key={i.invoiceId}>
+                    <TableCell>{i.companyName || i.companyId || "-"}</TableCell>
+                    <TableCell>{i.invoiceNumber || i.invoiceId}</TableCell>
+                    <TableCell>{i.daysPastDue}</TableCell>
+                    <TableCell>{formatCurrency(i.amount, i.currency)}</TableCell>
+                    <TableCell>
+                      {ACTION_LABELS[i.action][run.dryRun ? 1 : 0]}
+                      {i.message && (
+                        <span className="text-muted-foreground"> ({i.message})</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ---------- page ---------- */
+
+export default function Settings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PortalSettings | null>(null);
+  // edited as text, split on save
+  const [approvers, setApprovers] = useState("");
+
+  const { data, isLoading, error } = useQuery<PortalSettings>({
+    queryKey: ["settings"],
+    queryFn: async () => (await apiRequest("GET", "/api/settings")).json(),
+  });
+
+  useEffect(() => {
+    if (data) {
+      setForm(data);
+      setApprovers(data.approval.approverUserIds.join(", "));
+    }
+  }, [data]);
+
+  const save = useMutation({
+    mutationFn: async (settings: PortalSettings) =>
+      (await apiRequest("PUT", "/api/settings", settings)).json(),
+    onSuccess: (saved: PortalSettings) => {
+      queryClient.setQueryData(["settings"], saved);
+      queryClient.invalidateQueries({ queryKey: ["company"] });
+      queryClient.invalidateQueries({ queryKey: ["invoices-overdue"] });
+      toast({ title: "Settings saved" });
+    },
+    onError: (e: Error) =>
+      toast({
+        title: "Failed to save settings",
+        description: parseApiError(e).message,
+        variant: "destructive",
+      }),
+  });
+
+  const setProperty = (key: keyof PropertyMapping, value: string) =>
+    setForm((f) => f && { ...f, properties: { ...f.properties, [key]: value } });
+
+  const setGraceDays = (value: string) =>
+    setForm(
+      (f) =>
+        f && {
+          ...f,
+          overdueGraceDays: value === "" ? undefined : Number(value),
+        },
+    );
+
+  const setAutoWriteOff = (patch: Partial<AutoWriteOffSettings>) =>
+    setForm((f) => f && { ...f, autoWriteOff: { ...f.autoWriteOff, ...patch } });
+
+  const setThreshold = (value: string) =>
+    setForm(
+      (f) =>
+        f && {
+          ...f,
+          approval: {
+            ...f.approval,
+            threshold: value === "" ? undefined : Number(value),
+          },
+        },
+    );
+
+  const setStatement = (patch: Partial<StatementSettings>) =>
+    setForm((f) => f && { ...f, statement: { ...f.statement, ...patch } });
+
+  const setDunning = (patch: Partial<DunningSettings>) =>
+    setForm((f) => f && { ...f, dunning: { ...f.dunning, ...patch } });
+
+  const setTemplate = (key: DunningTemplateKey, patch: Partial<DunningTemplate>) =>
+    setForm(
+      (f) =>
+        f && {
+          ...f,
+          dunning: {
+            ...f.dunning,
+            templates: {
+              ...f.dunning.templates,
+              [key]: { ...f.dunning.templates[key], ...patch },
+            },
+          },
+        },
+    );
+
+  const setStage = (index: number, patch: Partial<DunningStage>) =>
+    setForm(
+      (f) =>
+        f && {
+          ...f,
+          dunning: {
+            ...f.dunning,
+            stages: f.dunning.stages.map((stage, i) => {
+              if (i !== index) return stage;
+              const next = { ...stage, ...patch };
+              // only email stages carry a template
+              return next.action === "email"
+                ? { ...next, template: next.template ?? "first_reminder" }
+                : { day: next.day, action: next.action };
+            }),
+          },
+        },
+    );
+
+  const addStage = () =>
+    setForm((f) => {
+      if (!f) return f;
+      const last = f.dunning.stages[f.dunning.stages.length - 1];
+      const stage: DunningStage = { day: last ? last.day + 30 : 7, action: "collections" };
+      return { ...f, dunning: { ...f.dunning, stages: [...f.dunning.stages, stage] } };
+    });
+
+  const removeStage = (index: number) =>
+    setForm(
+      (f) =>
+        f && {
+          ...f,
+          dunning: { ...f.dunning, stages: f.dunning.stages.filter((_, i) => i !== index) },
+        },
+    );
+
+  const readLogo = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const logo = String(reader.result);
+      if (logo.length > MAX_STATEMENT_LOGO_LENGTH) {
+        toast({
+          title: "Logo is too large",
+          description: "Use a PNG or JPEG under 48 KB.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setStatement({ logo });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const notConnected = error && (error as Error).message.startsWith("401");
+
+  return (
+    <Card className="m-4 max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SettingsIcon /> Settings
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {notConnected && (
+          <Alert variant="destructive">
+            <AlertTitle>Not connected</AlertTitle>
+            <AlertDescription>
+              <a href="/auth/hubspot" className="underline">
+                Connect to HubSpot
+              </a>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && !notConnected && (
+          <Alert variant="destructive">
+            <AlertTitle>Failed to load settings</AlertTitle>
+            <AlertDescription>{parseApiError(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && <Skeleton className="h-64" />}
+
+        {form && (
+          <form
+            className="space-y-6"
+            onSubmit={(e) => {
+              e.preventDefault();
+              save.mutate({
+                ...form,
+                approval: {
+                  ...form.approval,
+                  approverUserIds: approvers
+                    .split(",")
+                    .map((id) => id.trim())
+                    .filter(Boolean),
+                },
+              });
+            }}
+          >
+            <div className="space-y-3">
+              <h3 className="font-medium">HubSpot properties</h3>
+              {PROPERTY_FIELDS.map(({ key, label }) => (
+                <div key={key} className="grid grid-cols-2 items-center gap-4">
+                  <Label htmlFor={key}>{label}</Label>
+                  <Input
+                    id={key}
+                    value={form.properties[key]}
+                    onChange={(e) => setProperty(key, e.target.value)}
+                    required
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Overdue rule</h3>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="overdueGraceDays">Grace period (days)</Label>
+                <Input
+                  id="overdueGraceDays"
+                  type="number"
+                  min={0}
+                  max={365}
+                  placeholder="Server default"
+                  value={form.overdueGraceDays ?? ""}
+                  onChange={(e) => setGraceDays(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Write-off approval</h3>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="approvalThreshold">Approval needed above (amount)</Label>
+                <Input
+                  id="approvalThreshold"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="No approval needed"
+                  value={form.approval.threshold ?? ""}
+                  onChange={(e) => setThreshold(e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="approverUserIds">Approver HubSpot user ids</Label>
+                <Input
+                  id="approverUserIds"
+                  placeholder="Anyone but the requester"
+                  value={approvers}
+                  onChange={(e) => setApprovers(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Statement of account</h3>
+              <div className="grid grid-cols-2 items-start gap-4">
+                <Label htmlFor="statementHeader">Header (name, address, contact)</Label>
+                <Textarea
+                  id="statementHeader"
+                  rows={4}
+                  value={form.statement.headerText ?? ""}
+                  onChange={(e) => setStatement({ headerText: e.target.value || undefined })}
+                />
+              </div>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="statementLogo">Logo (PNG or JPEG)</Label>
+                <div className="flex items-center gap-2">
+                  {form.statement.logo && (
+                    <img src={form.statement.logo} alt="Logo" className="h-10 max-w-32 object-contain" />
+                  )}
+                  <Input
+                    id="statementLogo"
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    onChange={(e) => readLogo(e.target.files?.[0])}
+                  />
+                  {form.statement.logo && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setStatement({ logo: undefined })}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Payment reminders</h3>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="dunningFromName">Sender name</Label>
+                <Input
+                  id="dunningFromName"
+                  value={form.dunning.fromName ?? ""}
+                  onChange={(e) => setDunning({ fromName: e.target.value || undefined })}
+                />
+              </div>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="dunningReplyTo">Reply-to address</Label>
+                <Input
+                  id="dunningReplyTo"
+                  type="email"
+                  placeholder="Sender address"
+                  value={form.dunning.replyTo ?? ""}
+                  onChange={(e) => setDunning({ replyTo: e.target.value || undefined })}
+                />
+              </div>
+              {DUNNING_TEMPLATES.map((key) => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={`${key}Subject`}>{DUNNING_TEMPLATE_LABELS[key]}</Label>
+                  <Input
+                    id={`${key}Subject`}
+                    placeholder="Subject"
+                    value={form.dunning.templates[key].subject}
+                    onChange={(e) => setTemplate(key, { subject: e.target.value })}
+                    required
+                  />
+                  <Textarea
+                    rows={8}
+                    value={form.dunning.templates[key].body}
+                    onChange={(e) => setTemplate(key, { body: e.target.value })}
+                    required
+                  />
+                </div>
+              ))}
+              <p className="text-sm text-muted-foreground">
+                Merge fields:{" "}
+                {DUNNING_MERGE_FIELDS.map((f) => `{{${f}}}`).join(", ")}
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Dunning schedule</h3>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="dunningEnabled">Run on a schedule</Label>
+                <Switch
+                  id="dunningEnabled"
+                  checked={form.dunning.enabled}
+                  onCheckedChange={(enabled) => setDunning({ enabled })}
+                />
+              </div>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="dunningSchedule">Schedule (cron, UTC)</Label>
+                <Input
+                  id="dunningSchedule"
+                  value={form.dunning.schedule}
+                  onChange={(e) => setDunning({ schedule: e.target.value })}
+                  placeholder="0 7 * * *"
+                  required
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Each stage runs once per invoice, on the first run after the invoice is
+                that many days past its due date.
+              </p>
+              {form.dunning.stages.map((stage, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Input
+                    className="w-24"
+                    type="number"
+                    min={0}
+                    max={3650}
+                    aria-label="Days past due"
+                    value={stage.day}
+                    onChange={(e) => setStage(i, { day: Number(e.target.value) })}
+                    required
+                  />
+                  <span className="text-sm text-muted-foreground">days</span>
+                  <Select
+                    value={stage.action}
+                    onValueChange={(action) =>
+                      setStage(i, { action: action as DunningStage["action"] })
+                    }
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DUNNING_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action}>
+                          {DUNNING_ACTION_LABELS[action]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {stage.action === "email" && (
+                    <Select
+                      value={stage.template}
+                      onValueChange={(template) =>
+                        setStage(i, { template: template as DunningTemplateKey })
+                      }
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DUNNING_TEMPLATES.map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {DUNNING_TEMPLATE_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => removeStage(i)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={form.dunning.stages.length >= 10}
+                onClick={addStage}
+              >
+                Add stage
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Automatic write-off</h3>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="autoWriteOffEnabled">Run on a schedule</Label>
+                <Switch
+                  id="autoWriteOffEnabled"
+                  checked={form.autoWriteOff.enabled}
+                  onCheckedChange={(enabled) => setAutoWriteOff({ enabled })}
+                />
+              </div>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="autoWriteOffSchedule">Schedule (cron, UTC)</Label>
+                <Input
+                  id="autoWriteOffSchedule"
+                  value={form.autoWriteOff.schedule}
+                  onChange={(e) => setAutoWriteOff({ schedule: e.target.value })}
+                  placeholder="0 6 * * *"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="autoWriteOffDays">More than (days overdue)</Label>
+                <Input
+                  id="autoWriteOffDays"
+                  type="number"
+                  min={1}
+                  max={3650}
+                  value={form.autoWriteOff.overdueDays}
+                  onChange={(e) =>
+                    setAutoWriteOff({ overdueDays: Number(e.target.value) })
+                  }
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label>Action</Label>
+                <Select
+                  value={form.autoWriteOff.mode}
+                  onValueChange={(mode) =>
+                    setAutoWriteOff({ mode: mode as AutoWriteOffSettings["mode"] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="queue">Queue for review</SelectItem>
+                    <SelectItem value="flag">Write off as bad debt</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor="autoWriteOffDryRun">Dry run (report only)</Label>
+                <Switch
+                  id="autoWriteOffDryRun"
+                  checked={form.autoWriteOff.dryRun}
+                  onCheckedChange={(dryRun) => setAutoWriteOff({ dryRun })}
+                />
+              </div>
+            </div>
+
+            <Button type="submit" disabled={save.isPending}>
+              {save.isPending ? "Saving…" : "Save"}
+            </Button>
+          </form>
+        )}
+
+        {form && <AutoWriteOffRunReport />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, parseApiError, queryClient } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/format";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RefreshCw, ShieldCheck } from "lucide-react";
+import type { WriteOffRequest, WriteOffRequestStatus } from "@shared/schema";
+
+type Decision = "approve" | "reject";
+
+function statusBadge(r: WriteOffRequest) {
+  if (r.status === "approved" && r.error) {
+    return <Badge variant="destructive">Approved, not applied</Badge>;
+  }
+  const variants: Record<WriteOffRequestStatus, "default" | "secondary" | "outline" | "destructive"> = {
+    requested: "secondary",
+    approved: "default",
+    rejected: "outline",
+    applied: "default",
+  };
+  return <Badge variant={variants[r.status]}>{r.status}</Badge>;
+}
+
+/* ---------- page ---------- */
+
+export default function WriteOffApprovals() {
+  const { toast } = useToast();
+  const [tab, setTab] = useState<"requested" | "all">("requested");
+  const [target, setTarget] = useState<{ request: WriteOffRequest; decision: Decision } | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data, isLoading, error, refetch } = useQuery<WriteOffRequest[]>({
+    queryKey: ["write-off-requests", tab],
+    queryFn: async () => {
+      const query = tab === "requested" ? "?status=requested" : "";
+      return (await apiRequest("GET", `/api/write-off-requests${query}`)).json();
+    },
+  });
+
+  const onSettled = () =>
+    queryClient.invalidateQueries({ queryKey: ["write-off-requests"] });
+
+  const showFailure = (title: string) => (e: Error) =>
+    toast({
+      title,
+      description: parseApiError(e).message,
+      variant: "destructive",
+    });
+
+  const decide = useMutation({
+    mutationFn: async ({ request, decision }: { request: WriteOffRequest; decision: Decision }) =>
+      (
+        await apiRequest("POST", `/api/write-off-requests/${request.id}/${decision}`, {
+          note: note.trim() || undefined,
+        })
+      ).json(),
+    onSuccess: (_r, { decision }) =>
+      toast({
+        title: decision === "approve" ? "Approved and written off" : "Request rejected",
+      }),
+    onError: showFailure("Decision failed"),
+    onSettled: () => {
+      setTarget(null);
+      setNote("");
+      onSettled();
+    },
+  });
+
+  const retry = useMutation({
+    mutationFn: async (id: number) =>
+      (await apiRequest("POST", `/api/write-off-requests/${id}/apply`)).json(),
+    onSuccess: () => toast({ title: "Written off" }),
+    onError: showFailure("Write-off failed"),
+    onSettled,
+  });
+
+  const notConnected = error && (error as Error).message.startsWith("401");
+  const busy = decide.isPending || retry.isPending;
+
+  return (
+    <Card className="m-4">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck /> Write-off approvals
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Tabs value={tab} onValueChange={(v) => setTab(v as typeof tab)}>
+            <TabsList>
+              <TabsTrigger value="requested">Pending</TabsTrigger>
+              <TabsTrigger value="all">All</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button size="icon" onClick={() => refetch()}>
+            <RefreshCw />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {notConnected && (
+          <Alert variant="destructive">
+            <AlertTitle>Not connected</AlertTitle>
+            <AlertDescription>
+              <a href="/auth/hubspot" className="underline">
+                Connect to HubSpot
+              </a>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && !notConnected && (
+          <Alert variant="destructive">
+            <AlertTitle>Failed to load write-off requests</AlertTitle>
+            <AlertDescription>{parseApiError(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && <Skeleton className="h-32" />}
+
+        {data && data.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4">
+            {tab === "requested" ? "No write-offs waiting for approval." : "No write-off requests yet."}
+          </p>
+        )}
+
+        {!!data?.length && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Company</TableHead>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell>{r.id}</TableCell>
+                  <TableCell>
+                    <Link href={`/?companyId=${r.companyId}`} className="underline">
+                      {r.companyId}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{r.invoiceNumber || r.invoiceId}</TableCell>
+                  <TableCell>{formatCurrency(r.amount, r.currency)}</TableCell>
+                  <TableCell>
+                    {formatDate(String(r.createdAt))}
+                    {r.requestedBy && (
+                      <div className="text-xs text-muted-foreground">by {r.requestedBy}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{r.reason ?? "-"}</TableCell>
+                  <TableCell>
+                    {statusBadge(r)}
+                    {(r.decisionNote || r.error) && (
+                      <div className="text-xs text-muted-foreground">
+                        {r.error || r.decisionNote}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    {r.status === "requested" && (
+                      <>
+                        <Button
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => setTarget({ request: r, decision: "approve" })}
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busy}
+                          onClick={() => setTarget({ request: r, decision: "reject" })}
+                        >
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                    {r.status === "approved" && (
+                      <Button size="sm" disabled={busy} onClick={() => retry.mutate(r.id)}>
+                        Retry write-off
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!target} onOpenChange={(open) => !open && setTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {target?.decision === "approve" ? "Approve write-off?" : "Reject write-off?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {target?.decision === "approve"
+                ? "The invoice, its deal and its company are marked bad debt in HubSpot right away."
+                : "The invoice stays as it is. The requester can send a new request later."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={decide.isPending}
+              onClick={() => target && decide.mutate(target)}
+            >
+              {target?.decision === "approve" ? "Approve" : "Reject"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -12,6 +12,7 @@ const allowlist = [
   "date-fns",
   "drizzle-orm",
   "drizzle-zod",
+  "exceljs",
   "express",
   "express-rate-limit",
   "express-session",
@@ -27,7 +28,6 @@ const allowlist = [
   "stripe",
   "uuid",
   "ws",
-  "xlsx",
   "zod",
   "zod-validation-error",
 ];
@@ -0,0 +1,57 @@
+import { keyring, decryptValue, encryptValue, getKeyId } from "../server/crypto";
+import { baseStorage } from "../server/storage";
+import { pool } from "../server/db";
+import { loadTokens, saveTokens } from "../server/tokenstore";
+
+// Re-encrypts every stored OAuth token under the active key.
+//
+// Put the new key first in TOKEN_ENCRYPTION_KEYS and keep the old ones after it
+// so existing values can still be decrypted, e.g.
+//   TOKEN_ENCRYPTION_KEYS="k2:new-secret,k1:old-secret" npm run tokens:rotate
+// Once this has run, the old keys can be removed from the env.
+
+async function rotate() {
+  if (!keyring) {
+    throw new Error("TOKEN_ENCRYPTION_KEYS is not set");
+  }
+  if (!pool) {
+    console.warn("DATABASE_URL is not set, only the token file will be rotated");
+  }
+
+  const tokens = await baseStorage.listTokens();
+  let rotated = 0;
+
+  for (const token of tokens) {
+    if (
+      getKeyId(token.accessToken) === keyring.activeKeyId &&
+      getKeyId(token.refreshToken) === keyring.activeKeyId
+    ) {
+      continue;
+    }
+
+    await baseStorage.saveToken({
+      portalId: token.portalId,
+      accessToken: encryptValue(keyring, decryptValue(keyring, token.accessToken)),
+      refreshToken: encryptValue(keyring, decryptValue(keyring, token.refreshToken)),
+      expiresAt: token.expiresAt,
+    });
+    rotated++;
+  }
+
+  console.log(
+    `re-encrypted ${rotated} of ${tokens.length} token(s) under key "${keyring.activeKeyId}"`
+  );
+
+  const fileTokens = loadTokens();
+  if (fileTokens) {
+    saveTokens(fileTokens);
+    console.log("re-encrypted token file");
+  }
+}
+
+rotate()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool?.end());
@@ -0,0 +1,52 @@
+import { readFileSync } from "fs";
+import { webhookSignature } from "../server/webhooks";
+
+// Posts a webhook fixture to a running server, signed the way HubSpot signs it.
+//
+//   HUBSPOT_CLIENT_SECRET=... npm run webhooks:send -- script/fixtures/webhooks/invoice-paid.json
+//
+// Options (env):
+//   WEBHOOK_URL       target URL (default http://localhost:5000/webhooks/hubspot)
+//   WEBHOOK_PORTAL_ID overrides the fixture's portalId, to hit a connected portal
+//   WEBHOOK_OBJECT_ID overrides the fixture's objectId
+//   WEBHOOK_BAD_SIGNATURE=1 sends a wrong signature (expect 401)
+//
+// Event ids are sent as-is, so sending the same fixture twice exercises dedupe.
+
+async function send() {
+  const [file] = process.argv.slice(2);
+  if (!file) throw new Error("Usage: npm run webhooks:send -- <fixture.json>");
+
+  const clientSecret = process.env.HUBSPOT_CLIENT_SECRET;
+  if (!clientSecret) throw new Error("HUBSPOT_CLIENT_SECRET is not set");
+
+  const url = process.env.WEBHOOK_URL || "http://localhost:5000/webhooks/hubspot";
+  const events = JSON.parse(readFileSync(file, "utf8")) as Record<string, unknown>[];
+  for (const event of events) {
+    if (process.env.WEBHOOK_PORTAL_ID) event.portalId = Number(process.env.WEBHOOK_PORTAL_ID);
+    if (process.env.WEBHOOK_OBJECT_ID) event.objectId = Number(process.env.WEBHOOK_OBJECT_ID);
+  }
+
+  const body = JSON.stringify(events);
+  const timestamp = String(Date.now());
+  const signature = process.env.WEBHOOK_BAD_SIGNATURE
+    ? webhookSignature("POST", url, body, timestamp, "wrong-secret")
+    : webhookSignature("POST", url, body, timestamp, clientSecret);
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-HubSpot-Signature-v3": signature,
+      "X-HubSpot-Request-Timestamp": timestamp,
+    },
+    body,
+  });
+
+  console.log(`${response.status} ${await response.text()}`);
+}
+
+send().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { portalSettingsSchema, type WriteOffRequest } from "@shared/schema";
+import { decisionError } from "./approvals";
+
+const request = (requestedBy: string | null) => ({ requestedBy }) as WriteOffRequest;
+const anyApprover = portalSettingsSchema.parse({});
+const approvers = portalSettingsSchema.parse({ approval: { approverUserIds: ["u2"] } });
+
+describe("decisionError", () => {
+  it.each([
+    { name: "another user", requestedBy: "u1", userId: "u2", settings: anyApprover, allowed: true },
+    { name: "the requester", requestedBy: "u1", userId: "u1", settings: anyApprover, allowed: false },
+    { name: "a configured approver", requestedBy: "u1", userId: "u2", settings: approvers, allowed: true },
+    { name: "an unlisted user", requestedBy: "u1", userId: "u3", settings: approvers, allowed: false },
+    { name: "a known user on an anonymous request", requestedBy: null, userId: "u2", settings: anyApprover, allowed: true },
+    { name: "an unknown user", requestedBy: "u1", userId: null, settings: anyApprover, allowed: false },
+    { name: "an unknown user on an anonymous request", requestedBy: null, userId: null, settings: anyApprover, allowed: false },
+  ])("$name: $allowed", ({ requestedBy, userId, settings, allowed }) => {
+    const error = decisionError(request(requestedBy), userId, settings);
+    expect(error === null).toBe(allowed);
+  });
+});
@@ -0,0 +1,165 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import { isOpenDispute } from "@shared/schema";
+import type {
+  InsertAuditEvent,
+  Invoice,
+  MarkBadDebtResponse,
+  PortalSettings,
+  WriteOffDetails,
+  WriteOffRequest,
+} from "@shared/schema";
+import {
+  applyBadDebtCascade,
+  markInvoiceSteps,
+  recordWriteOffDetails,
+  toAuditEvents,
+  toBadDebtResponse,
+  writeOffReason,
+} from "./bad-debt";
+import { storage } from "./storage";
+
+export class WriteOffError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Throws WriteOffError while the invoice is under an open dispute; disputed
+ * invoices can't be written off until the dispute is resolved.
+ */
+export async function assertNotDisputed(portalKey: string, invoiceId: string): Promise<void> {
+  const dispute = await storage.getInvoiceDispute(portalKey, invoiceId);
+  if (isOpenDispute(dispute?.status)) {
+    throw new WriteOffError("Invoice is under dispute", 409);
+  }
+}
+
+/**
+ * Whether writing off an invoice of this amount needs sign-off. The threshold
+ * is compared with the amount in the invoice's own currency.
+ */
+export function needsApproval(amount: string | null, settings: PortalSettings): boolean {
+  const { threshold } = settings.approval;
+  if (threshold === undefined) return false;
+  const value = parseFloat(amount ?? "");
+  return Number.isFinite(value) && value > threshold;
+}
+
+/**
+ * Creates a write-off request for the invoice, or returns the one already open.
+ */
+export async function requestWriteOff(
+  portalKey: string,
+  companyId: string,
+  invoice: Pick<Invoice, "id" | "hs_invoice_number" | "amount" | "currency" | "dealId">,
+  requestedBy: string | null,
+  details: WriteOffDetails,
+  reason?: string
+): Promise<WriteOffRequest> {
+  const open = await storage.getOpenWriteOffRequest(portalKey, invoice.id);
+  if (open) return open;
+
+  return storage.createWriteOffRequest({
+    portalId: portalKey,
+    companyId,
+    invoiceId: invoice.id,
+    dealId: invoice.dealId ?? null,
+    invoiceNumber: invoice.hs_invoice_number || null,
+    amount: invoice.amount,
+    currency: invoice.currency,
+    status: "requested",
+    reason: reason ?? writeOffReason(details),
+    category: details.category,
+    note: details.note ?? null,
+    effectiveDate: details.effectiveDate ?? null,
+    requestedBy,
+  });
+}
+
+export function pendingApprovalResponse(request: WriteOffRequest): MarkBadDebtResponse {
+  return {
+    success: true,
+    pendingApproval: true,
+    requestId: request.id,
+    message: `Above the approval threshold, sent for approval (request #${request.id})`,
+  };
+}
+
+/**
+ * Why this user may not approve or reject the request, or null if they may.
+ * Decisions need a known HubSpot user, so nobody can approve a request
+ * anonymously (or one that was itself requested anonymously).
+ */
+export function decisionError(
+  request: WriteOffRequest,
+  userId: string | null,
+  settings: PortalSettings
+): string | null {
+  if (!userId) {
+    return "Sign in through HubSpot to decide write-off requests";
+  }
+  const { approverUserIds } = settings.approval;
+  if (approverUserIds.length > 0 && !approverUserIds.includes(userId)) {
+    return "Only configured approvers can decide write-off requests";
+  }
+  if (request.requestedBy === userId) {
+    return "You can't decide your own write-off request";
+  }
+  return null;
+}
+
+/**
+ * Runs the bad-debt cascade for an approved request and records the outcome on
+ * it: `applied` on success, otherwise it stays approved with the error so it
+ * can be retried. Throws WriteOffError while the invoice is under dispute.
+ */
+export async function applyWriteOffRequest(
+  client: HubSpotClient,
+  request: WriteOffRequest,
+  settings: PortalSettings,
+  recordAudit: (events: InsertAuditEvent[]) => Promise<void>
+): Promise<{ request: WriteOffRequest; response: MarkBadDebtResponse }> {
+  await assertNotDisputed(request.portalId, request.invoiceId);
+
+  const steps = markInvoiceSteps(request);
+  const result = await applyBadDebtCascade(client, steps, settings.properties.badDebt);
+  await recordAudit(
+    toAuditEvents(result, steps, {
+      portalId: request.portalId,
+      hubspotUserId: request.decidedBy,
+      companyId: request.companyId,
+      reason: [`Write-off request #${request.id} approved`, request.reason]
+        .filter(Boolean)
+        .join(": "),
+    })
+  );
+
+  const response = toBadDebtResponse(result, "true", "Marked bad debt");
+  // requests from before write-off details existed have no category
+  if (result.success && request.category) {
+    const warnings = await recordWriteOffDetails(
+      client,
+      request,
+      {
+        category: request.category,
+        note: request.note ?? undefined,
+        effectiveDate: request.effectiveDate ?? undefined,
+      },
+      settings.properties
+    );
+    if (warnings.length) response.warnings = warnings;
+  }
+
+  const updated = await storage.updateWriteOffRequest(
+    request.portalId,
+    request.id,
+    result.success
+      ? { status: "applied", appliedAt: new Date(), error: null }
+      : { error: response.message || "Failed to apply" }
+  );
+  return { request: updated ?? request, response };
+}
@@ -0,0 +1,271 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import type {
+  AutoWriteOffItem,
+  AutoWriteOffRun,
+  InsertAuditEvent,
+  OverdueInvoice,
+  PortalSettings,
+  WriteOffDetails,
+} from "@shared/schema";
+import { needsApproval, requestWriteOff } from "./approvals";
+import { bulkMarkInvoicesBadDebt } from "./bad-debt";
+import { batchReadAssociations } from "./hubspot";
+import { searchOverdueInvoices } from "./overdue";
+import { getOverdueRule } from "./portal";
+import { startPortalScheduler, type SchedulerDeps } from "./scheduler";
+import { storage } from "./storage";
+
+// Invoices handled per run; the rest wait for the next one
+const MAX_INVOICES_PER_RUN = parseInt(
+  process.env.AUTO_WRITE_OFF_MAX_INVOICES || "500",
+  10
+);
+
+const SEARCH_PAGE_SIZE = 100;
+
+const lastRuns = new Map<string, AutoWriteOffRun>();
+const running = new Set<string>();
+
+export class RunInProgressError extends Error {
+  constructor(portalKey: string) {
+    super(`An auto write-off run is already in progress for ${portalKey}`);
+  }
+}
+
+export function getLastRun(portalKey: string): AutoWriteOffRun | null {
+  return lastRuns.get(portalKey) || null;
+}
+
+function toItem(
+  invoice: OverdueInvoice,
+  action: AutoWriteOffItem["action"],
+  message?: string
+): AutoWriteOffItem {
+  return {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.hs_invoice_number || null,
+    companyId: invoice.companyId,
+    companyName: invoice.companyName,
+    amount: invoice.amount,
+    currency: invoice.currency,
+    daysPastDue: invoice.daysPastDue,
+    action,
+    message,
+  };
+}
+
+/**
+ * Open invoices more than `overdueDays` past due that aren't bad debt yet or
+ * under open dispute, most overdue first, up to MAX_INVOICES_PER_RUN.
+ */
+async function findCandidates(
+  client: HubSpotClient,
+  portalKey: string,
+  settings: PortalSettings
+): Promise<{ invoices: OverdueInvoice[]; truncated: boolean }> {
+  const rule = await getOverdueRule(client, portalKey, settings);
+  const threshold = { ...rule, graceDays: settings.autoWriteOff.overdueDays };
+  const disputed = (await storage.getOpenDisputes(portalKey)).map((d) => d.invoiceId);
+
+  const invoices: OverdueInvoice[] = [];
+  let after: string | undefined;
+  do {
+    const page = await searchOverdueInvoices(
+      client,
+      { sort: "daysOverdue", order: "desc", limit: SEARCH_PAGE_SIZE, after },
+      threshold,
+      settings.properties,
+      disputed
+    );
+    invoices.push(...page.results.filter((i) => i.bad_debt !== "true"));
+    after = page.nextAfter || undefined;
+  } while (after && invoices.length < MAX_INVOICES_PER_RUN);
+
+  return {
+    invoices: invoices.slice(0, MAX_INVOICES_PER_RUN),
+    truncated: !!after || invoices.length > MAX_INVOICES_PER_RUN,
+  };
+}
+
+async function queueInvoices(
+  portalKey: string,
+  invoices: OverdueInvoice[],
+  dryRun: boolean
+): Promise<AutoWriteOffItem[]> {
+  const queued = new Set(
+    (await storage.getPendingWriteOffs(portalKey)).map((p) => p.invoiceId)
+  );
+  const fresh = invoices.filter((i) => !queued.has(i.id));
+
+  if (!dryRun) {
+    await storage.addPendingWriteOffs(
+      fresh.map((i) => ({
+        portalId: portalKey,
+        companyId: i.companyId!,
+        invoiceId: i.id,
+        dealId: i.dealId ?? null,
+        invoiceNumber: i.hs_invoice_number || null,
+        amount: i.amount,
+        currency: i.currency,
+        dueDate: i.hs_due_date,
+        daysPastDue: i.daysPastDue,
+      }))
+    );
+  }
+
+  return invoices.map((i) =>
+    queued.has(i.id) ? toItem(i, "skipped", "Already pending review") : toItem(i, "queued")
+  );
+}
+
+async function flagInvoices(
+  client: HubSpotClient,
+  portalKey: string,
+  settings: PortalSettings,
+  invoices: OverdueInvoice[],
+  dryRun: boolean,
+  recordAudit: (events: InsertAuditEvent[]) => Promise<void>
+): Promise<AutoWriteOffItem[]> {
+  const reason = `Auto write-off: more than ${settings.autoWriteOff.overdueDays} days overdue`;
+  const details: WriteOffDetails = { category: "uncollectable", note: reason };
+  const gated = invoices.filter((i) => needsApproval(i.amount, settings));
+  const direct = invoices.filter((i) => !gated.includes(i));
+
+  if (dryRun) {
+    return [
+      ...direct.map((i) => toItem(i, "flagged")),
+      ...gated.map((i) => toItem(i, "requested")),
+    ];
+  }
+
+  const items: AutoWriteOffItem[] = [];
+  for (const invoice of gated) {
+    const request = await requestWriteOff(
+      portalKey,
+      invoice.companyId!,
+      invoice,
+      null,
+      details,
+      reason
+    );
+    items.push(toItem(invoice, "requested", `Request #${request.id}`));
+  }
+
+  const byCompany = new Map<string, OverdueInvoice[]>();
+  for (const invoice of direct) {
+    const list = byCompany.get(invoice.companyId!) || [];
+    list.push(invoice);
+    byCompany.set(invoice.companyId!, list);
+  }
+
+  for (const [companyId, companyInvoices] of Array.from(byCompany)) {
+    const { response, audit } = await bulkMarkInvoicesBadDebt(
+      client,
+      companyInvoices,
+      {
+        portalId: portalKey,
+        hubspotUserId: null,
+        companyId,
+        reason,
+      },
+      details,
+      settings.properties
+    );
+    await recordAudit(audit);
+
+    const results = new Map(response.results.map((r) => [r.invoiceId, r]));
+    for (const invoice of companyInvoices) {
+      const result = results.get(invoice.id);
+      items.push(
+        result?.success
+          ? toItem(invoice, "flagged")
+          : toItem(invoice, "failed", result?.message || "Not updated")
+      );
+    }
+  }
+  return items;
+}
+
+/**
+ * Scans the portal for invoices overdue beyond the configured threshold and
+ * writes them off or queues them for review. In dry-run mode nothing is
+ * changed; the run only reports what it would do.
+ */
+export async function runAutoWriteOff(
+  client: HubSpotClient,
+  portalKey: string,
+  settings: PortalSettings,
+  options: {
+    trigger: AutoWriteOffRun["trigger"];
+    dryRun?: boolean;
+    recordAudit: (events: InsertAuditEvent[]) => Promise<void>;
+  }
+): Promise<AutoWriteOffRun> {
+  if (running.has(portalKey)) throw new RunInProgressError(portalKey);
+  running.add(portalKey);
+
+  const { mode, overdueDays } = settings.autoWriteOff;
+  const run: AutoWriteOffRun = {
+    portalId: portalKey,
+    trigger: options.trigger,
+    mode,
+    dryRun: options.dryRun ?? settings.autoWriteOff.dryRun,
+    overdueDays,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    truncated: false,
+    items: [],
+  };
+
+  try {
+    const { invoices, truncated } = await findCandidates(client, portalKey, settings);
+    run.truncated = truncated;
+
+    const withCompany = invoices.filter((i) => i.companyId);
+    const { associations } = await batchReadAssociations(
+      client,
+      "invoices",
+      "deals",
+      withCompany.map((i) => i.id)
+    );
+    for (const invoice of withCompany) {
+      invoice.dealId = associations.get(invoice.id)?.[0] || null;
+    }
+
+    run.items = invoices
+      .filter((i) => !i.companyId)
+      .map((i) => toItem(i, "skipped", "No associated company"));
+    run.items.push(
+      ...(mode === "flag"
+        ? await flagInvoices(client, portalKey, settings, withCompany, run.dryRun, options.recordAudit)
+        : await queueInvoices(portalKey, withCompany, run.dryRun))
+    );
+  } catch (e: any) {
+    console.error(`Auto write-off failed for ${portalKey}:`, e?.response?.body || e);
+    run.error = e?.body?.message || e?.response?.body?.message || e?.message || "Unknown error";
+  } finally {
+    run.finishedAt = new Date().toISOString();
+    lastRuns.set(portalKey, run);
+    running.delete(portalKey);
+  }
+
+  return run;
+}
+
+/**
+ * Runs each portal's auto write-off on its schedule. Returns a function that
+ * stops the scheduler.
+ */
+export function startAutoWriteOffScheduler(deps: SchedulerDeps): () => void {
+  return startPortalScheduler(deps, {
+    name: "Auto write-off",
+    schedule: (settings) =>
+      settings.autoWriteOff.enabled ? settings.autoWriteOff.schedule : null,
+    isRunning: (portalKey) => running.has(portalKey),
+    run: (client, portalKey, settings) =>
+      runAutoWriteOff(client, portalKey, settings, {
+        trigger: "schedule",
+        recordAudit: deps.recordAudit,
+      }),
+  });
+}
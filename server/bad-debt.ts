@@ -0,0 +1,416 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import {
+  WRITE_OFF_CATEGORY_LABELS,
+  type BadDebtObjectResult,
+  type BadDebtObjectType,
+  type BulkMarkBadDebtResponse,
+  type InsertAuditEvent,
+  type Invoice,
+  type MarkBadDebtResponse,
+  type PropertyMapping,
+  type WriteOffDetails,
+} from "@shared/schema";
+import { batchReadObjects, mapWithConcurrency, readAllAssociations } from "./hubspot";
+
+// Invoices written off in parallel during a bulk run
+const BULK_CONCURRENCY = 3;
+
+export const OBJECT_TYPES: Record<BadDebtObjectType, string> = {
+  invoice: "invoices",
+  deal: "deals",
+  company: "companies",
+};
+
+export interface BadDebtStep {
+  objectType: BadDebtObjectType;
+  objectId: string;
+  value: string;
+}
+
+export interface CascadeResult {
+  success: boolean;
+  objects: BadDebtObjectResult[];
+  errors: Partial<Record<BadDebtObjectType, string>>;
+}
+
+function errorMessage(e: any): string {
+  return e?.body?.message || e?.response?.body?.message || e?.message || "Unknown error";
+}
+
+async function setBadDebt(
+  client: HubSpotClient,
+  property: string,
+  objectType: BadDebtObjectType,
+  objectId: string,
+  value: string
+) {
+  await client.crm.objects.basicApi.update(OBJECT_TYPES[objectType], objectId, {
+    properties: { [property]: value },
+  });
+}
+
+/**
+ * Writes the bad-debt property (`bad_debt` unless the portal maps it elsewhere)
+ * on each object in order, all-or-nothing.
+ *
+ * Prior values are read first; if any write fails, the objects already written
+ * are restored to their prior values (in reverse order) and the result lists
+ * what failed per object.
+ */
+export async function applyBadDebtCascade(
+  client: HubSpotClient,
+  steps: BadDebtStep[],
+  property = "bad_debt"
+): Promise<CascadeResult> {
+  const objects: BadDebtObjectResult[] = steps.map((s) => ({
+    objectType: s.objectType,
+    objectId: s.objectId,
+    previous: null,
+    updated: false,
+  }));
+  const errors: CascadeResult["errors"] = {};
+
+  // 1) Record prior values, nothing is written if one of them can't be read
+  await Promise.all(
+    steps.map(async (step, i) => {
+      try {
+        const obj = await client.crm.objects.basicApi.getById(
+          OBJECT_TYPES[step.objectType],
+          step.objectId,
+          [property]
+        );
+        objects[i].previous = obj.properties[property] ?? null;
+      } catch (e: any) {
+        console.error(
+          `Failed to read ${step.objectType} ${step.objectId} bad_debt:`,
+          e?.response?.body || e
+        );
+        objects[i].error = errorMessage(e);
+        errors[step.objectType] = objects[i].error;
+      }
+    })
+  );
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, objects, errors };
+  }
+
+  // 2) Write, stop at the first failure
+  let failed = false;
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    try {
+      await setBadDebt(client, property, step.objectType, step.objectId, step.value);
+      objects[i].updated = true;
+    } catch (e: any) {
+      console.error(
+        `Failed to update ${step.objectType} ${step.objectId} bad_debt:`,
+        e?.response?.body || e
+      );
+      objects[i].error = errorMessage(e);
+      errors[step.objectType] = objects[i].error;
+      failed = true;
+      break;
+    }
+  }
+
+  if (!failed) return { success: true, objects, errors };
+
+  // 3) Roll back what was already written
+  for (let i = objects.length - 1; i >= 0; i--) {
+    const obj = objects[i];
+    if (!obj.updated) continue;
+    try {
+      await setBadDebt(client, property, obj.objectType, obj.objectId, obj.previous ?? "");
+      obj.updated = false;
+      obj.rolledBack = true;
+    } catch (e: any) {
+      console.error(
+        `Failed to roll back ${obj.objectType} ${obj.objectId} bad_debt:`,
+        e?.response?.body || e
+      );
+      obj.rollbackError = errorMessage(e);
+    }
+  }
+
+  return { success: false, objects, errors };
+}
+
+/**
+ * Steps that mark an invoice bad debt along with its deal (if any) and company.
+ */
+export function markInvoiceSteps(target: {
+  companyId: string;
+  invoiceId: string;
+  dealId?: string | null;
+}): BadDebtStep[] {
+  const steps: BadDebtStep[] = [
+    { objectType: "invoice", objectId: target.invoiceId, value: "true" },
+  ];
+  if (target.dealId) {
+    steps.push({ objectType: "deal", objectId: target.dealId, value: "true" });
+  }
+  steps.push({ objectType: "company", objectId: target.companyId, value: "true" });
+  return steps;
+}
+
+/**
+ * Steps that clear bad debt on an invoice, plus its deal and company when no
+ * other invoice on them is still bad debt. Fails closed: read errors are
+ * thrown and unreadable invoices count as bad debt.
+ */
+export async function planUnmarkSteps(
+  client: HubSpotClient,
+  target: { companyId: string; invoiceId: string; dealId?: string | null },
+  property = "bad_debt"
+): Promise<BadDebtStep[]> {
+  const { companyId, invoiceId, dealId } = target;
+
+  // Which other invoices are still bad debt, on the deal and on the company
+  const [dealInvoices, companyInvoices] = await Promise.all([
+    dealId
+      ? readAllAssociations(client, "deals", dealId, "invoices")
+      : Promise.resolve({ ids: [], truncated: false }),
+    readAllAssociations(client, "companies", companyId, "invoices"),
+  ]);
+  const otherInvoiceIds = [...dealInvoices.ids, ...companyInvoices.ids].filter(
+    (id) => id !== invoiceId
+  );
+  const otherInvoices = await batchReadObjects(client, "invoices", otherInvoiceIds, [
+    property,
+  ]);
+  // An invoice we couldn't read may still be bad debt, so it keeps the flags
+  const isBadDebt = (id: string) => {
+    const invoice = otherInvoices.get(id);
+    return !invoice || invoice.properties[property] === "true";
+  };
+
+  const steps: BadDebtStep[] = [
+    { objectType: "invoice", objectId: invoiceId, value: "false" },
+  ];
+  // When the association list was cut off we can't be sure nothing else is bad debt
+  if (
+    dealId &&
+    !dealInvoices.truncated &&
+    !dealInvoices.ids.some((id) => id !== invoiceId && isBadDebt(id))
+  ) {
+    steps.push({ objectType: "deal", objectId: dealId, value: "false" });
+  }
+  if (
+    !companyInvoices.truncated &&
+    !companyInvoices.ids.some((id) => id !== invoiceId && isBadDebt(id))
+  ) {
+    steps.push({ objectType: "company", objectId: companyId, value: "false" });
+  }
+  return steps;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Audit reason for a write-off: category label, plus the note if any. */
+export function writeOffReason(details: WriteOffDetails): string {
+  const label = WRITE_OFF_CATEGORY_LABELS[details.category];
+  return details.note ? `${label}: ${details.note}` : label;
+}
+
+/**
+ * Saves why an invoice was written off: the category, note and effective date
+ * on the invoice's own properties, and a note on the CRM timeline associated
+ * with the invoice, its deal and company. Runs after the cascade succeeded, so
+ * failures here don't undo the write-off; they come back as warnings.
+ */
+export async function recordWriteOffDetails(
+  client: HubSpotClient,
+  target: { companyId: string; invoiceId: string; dealId?: string | null },
+  details: WriteOffDetails,
+  mapping: PropertyMapping
+): Promise<string[]> {
+  const warnings: string[] = [];
+  const effectiveDate = details.effectiveDate ?? new Date().toISOString().slice(0, 10);
+
+  try {
+    await client.crm.objects.basicApi.update("invoices", target.invoiceId, {
+      properties: {
+        [mapping.badDebtCategory]: details.category,
+        [mapping.badDebtNote]: details.note ?? "",
+        [mapping.badDebtEffectiveDate]: effectiveDate,
+      },
+    });
+  } catch (e: any) {
+    console.error(`Failed to save write-off details on invoice ${target.invoiceId}:`, e?.response?.body || e);
+    warnings.push(`Write-off details not saved on the invoice: ${errorMessage(e)}`);
+  }
+
+  try {
+    const body = [
+      `<p><strong>Invoice written off as bad debt</strong></p>`,
+      `<p>Reason: ${WRITE_OFF_CATEGORY_LABELS[details.category]}<br>Effective: ${effectiveDate}</p>`,
+      details.note ? `<p>${escapeHtml(details.note)}</p>` : "",
+    ].join("");
+    const note = await client.crm.objects.notes.basicApi.create({
+      properties: { hs_timestamp: new Date().toISOString(), hs_note_body: body },
+    });
+
+    const associations: [string, string | null | undefined][] = [
+      ["invoices", target.invoiceId],
+      ["deals", target.dealId],
+      ["companies", target.companyId],
+    ];
+    for (const [toObjectType, toObjectId] of associations) {
+      if (!toObjectId) continue;
+      await client.crm.associations.v4.basicApi.createDefault(
+        "notes",
+        note.id,
+        toObjectType,
+        toObjectId
+      );
+    }
+  } catch (e: any) {
+    console.error(`Failed to create write-off note for invoice ${target.invoiceId}:`, e?.response?.body || e);
+    warnings.push(`CRM note not created: ${errorMessage(e)}`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Shapes a cascade result into the response returned by the bad-debt routes.
+ */
+export function toBadDebtResponse(
+  result: CascadeResult,
+  value: string,
+  verb: string
+): MarkBadDebtResponse {
+  const updated = (type: BadDebtObjectType) =>
+    result.objects.some((o) => o.objectType === type && o.updated);
+  const names = result.objects.map((o) => o.objectType).join(", ");
+
+  let message: string;
+  if (result.success) {
+    message = `${verb} on: ${names}`;
+  } else {
+    const failed = Object.keys(result.errors).join(", ");
+    const stuck = result.objects.filter((o) => o.rollbackError);
+    message = stuck.length
+      ? `Failed on: ${failed}. Could not roll back: ${stuck.map((o) => o.objectType).join(", ")}`
+      : `Failed on: ${failed}. No records were changed`;
+  }
+
+  return {
+    success: result.success,
+    bad_debt: result.success ? value : undefined,
+    updatedInvoice: updated("invoice"),
+    updatedDeal: updated("deal"),
+    updatedCompany: updated("company"),
+    message,
+    objects: result.objects,
+    errors: result.success ? undefined : result.errors,
+  };
+}
+
+export interface AuditContext {
+  portalId: string;
+  hubspotUserId: string | null;
+  companyId: string;
+  reason?: string | null;
+}
+
+/**
+ * Audit events for the objects a cascade actually changed.
+ */
+export function toAuditEvents(
+  result: CascadeResult,
+  steps: BadDebtStep[],
+  ctx: AuditContext
+): InsertAuditEvent[] {
+  return result.objects
+    .map((obj, i) => ({ obj, step: steps[i] }))
+    .filter(({ obj }) => obj.updated)
+    .map(({ obj, step }) => ({
+      portalId: ctx.portalId,
+      hubspotUserId: ctx.hubspotUserId,
+      companyId: ctx.companyId,
+      objectType: obj.objectType,
+      objectId: obj.objectId,
+      oldValue: obj.previous,
+      newValue: step.value,
+      reason: ctx.reason ?? null,
+    }));
+}
+
+/**
+ * Writes off several invoices of one company. Each invoice (and its deal) is its
+ * own all-or-nothing cascade; the company is flagged once at the end if any
+ * invoice succeeded.
+ */
+export async function bulkMarkInvoicesBadDebt(
+  client: HubSpotClient,
+  invoices: Invoice[],
+  ctx: AuditContext,
+  details: WriteOffDetails,
+  mapping: PropertyMapping
+): Promise<{ response: BulkMarkBadDebtResponse; audit: InsertAuditEvent[] }> {
+  const property = mapping.badDebt;
+  const audit: InsertAuditEvent[] = [];
+
+  const results = await mapWithConcurrency(invoices, BULK_CONCURRENCY, async (invoice) => {
+    const steps: BadDebtStep[] = [
+      { objectType: "invoice", objectId: invoice.id, value: "true" },
+    ];
+    if (invoice.dealId) {
+      steps.push({ objectType: "deal", objectId: invoice.dealId, value: "true" });
+    }
+
+    const result = await applyBadDebtCascade(client, steps, property);
+    audit.push(...toAuditEvents(result, steps, ctx));
+
+    const response = toBadDebtResponse(result, "true", "Marked bad debt");
+    const warnings = result.success
+      ? await recordWriteOffDetails(
+          client,
+          { companyId: ctx.companyId, invoiceId: invoice.id, dealId: invoice.dealId },
+          details,
+          mapping
+        )
+      : [];
+    return {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.hs_invoice_number || undefined,
+      success: result.success,
+      message: response.message || "",
+      errors: response.errors,
+      warnings: warnings.length ? warnings : undefined,
+    };
+  });
+
+  const succeeded = results.filter((r) => r.success).length;
+  let updatedCompany = false;
+  let companyError: string | undefined;
+
+  if (succeeded > 0) {
+    const steps: BadDebtStep[] = [
+      { objectType: "company", objectId: ctx.companyId, value: "true" },
+    ];
+    const result = await applyBadDebtCascade(client, steps, property);
+    audit.push(...toAuditEvents(result, steps, ctx));
+    updatedCompany = result.success;
+    companyError = result.errors.company;
+  }
+
+  return {
+    response: {
+      success: succeeded === results.length && !companyError,
+      message: `Marked bad debt on ${succeeded} of ${results.length} invoice(s)`,
+      results,
+      updatedCompany,
+      companyError,
+    },
+    audit,
+  };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import { propertyMappingSchema } from "@shared/schema";
+import { DEFAULT_OVERDUE_RULE } from "@shared/overdue";
+import { loadCompanyData } from "./company";
+
+const mapping = propertyMappingSchema.parse({});
+
+interface Portal {
+  company: { id: string; name: string };
+  deals: { id: string; dealname: string }[];
+  invoices: { id: string; dealId: string }[];
+}
+
+/**
+ * Builds a HubSpot client stub serving `portal` and recording every API call,
+ * shaped like the v4 associations and batch endpoints respond.
+ */
+function recordingClient(portal: Portal) {
+  const calls: string[] = [];
+  const byType: Record<string, Map<string, Record<string, string>>> = {
+    deals: new Map(portal.deals.map((d) => [d.id, { dealname: d.dealname, amount: "100" }])),
+    invoices: new Map(
+      portal.invoices.map((i) => [
+        i.id,
+        {
+          hs_invoice_number: `INV-${i.id}`,
+          hs_invoice_status: "open",
+          hs_due_date: "2024-01-31",
+          amount: "100",
+          hs_currency: "USD",
+        },
+      ])
+    ),
+  };
+
+  const client = {
+    crm: {
+      companies: {
+        basicApi: {
+          getById: async (id: string) => {
+            calls.push("companies.getById");
+            return { id, properties: { name: portal.company.name } };
+          },
+        },
+      },
+      objects: {
+        basicApi: {
+          getById: async (objectType: string, id: string) => {
+            calls.push(`${objectType}.getById`);
+            return { id, properties: byType[objectType].get(id) };
+          },
+        },
+        batchApi: {
+          read: async (objectType: string, { inputs }: { inputs: { id: string }[] }) => {
+            calls.push(`${objectType}.batchRead`);
+            return {
+              results: inputs
+                .filter(({ id }) => byType[objectType].has(id))
+                .map(({ id }) => ({ id, properties: byType[objectType].get(id) })),
+            };
+          },
+        },
+      },
+      associations: {
+        v4: {
+          basicApi: {
+            getPage: async (_from: string, _id: string, toObjectType: string) => {
+              calls.push(`companies->${toObjectType}.getPage`);
+              const objects = toObjectType === "deals" ? portal.deals : portal.invoices;
+              return { results: objects.map((o) => ({ toObjectId: Number(o.id) })) };
+            },
+          },
+          batchApi: {
+            getPage: async (
+              fromObjectType: string,
+              toObjectType: string,
+              { inputs }: { inputs: { id: string }[] }
+            ) => {
+              calls.push(`${fromObjectType}->${toObjectType}.batchGetPage`);
+              return {
+                results: inputs.map(({ id }) => ({
+                  _from: { id },
+                  to: [{ toObjectId: Number(portal.invoices.find((i) => i.id === id)!.dealId) }],
+                })),
+              };
+            },
+          },
+        },
+      },
+    },
+  };
+
+  return { client: client as unknown as HubSpotClient, calls };
+}
+
+function portalWith(dealCount: number, invoiceCount: number): Portal {
+  const deals = Array.from({ length: dealCount }, (_, i) => ({
+    id: String(1000 + i),
+    dealname: `Deal ${i}`,
+  }));
+  const invoices = Array.from({ length: invoiceCount }, (_, i) => ({
+    id: String(5000 + i),
+    dealId: deals[i % dealCount].id,
+  }));
+  return { company: { id: "42", name: "Acme" }, deals, invoices };
+}
+
+describe("loadCompanyData", () => {
+  it("reads deals, invoices and their associations in batches", async () => {
+    const portal = portalWith(20, 150);
+    const { client, calls } = recordingClient(portal);
+
+    const data = await loadCompanyData(client, "portal-1", "42", DEFAULT_OVERDUE_RULE, mapping);
+
+    expect(data.deals).toHaveLength(20);
+    expect(data.invoices).toHaveLength(150);
+    expect(data.invoices[0]).toMatchObject({ id: "5000", dealId: "1000", dealName: "Deal 0" });
+
+    // one read per object would be 1 + 2 + 20 + 150 + 150 calls
+    expect(calls.sort()).toEqual([
+      "companies->deals.getPage",
+      "companies->invoices.getPage",
+      "companies.getById",
+      "deals.batchRead",
+      "invoices->deals.batchGetPage",
+      "invoices->deals.batchGetPage",
+      "invoices.batchRead",
+      "invoices.batchRead",
+    ]);
+  });
+
+  it("keeps the call count flat as a company's invoices grow", async () => {
+    const small = recordingClient(portalWith(5, 10));
+    const large = recordingClient(portalWith(5, 100));
+
+    await loadCompanyData(small.client, "portal-1", "42", DEFAULT_OVERDUE_RULE, mapping);
+    await loadCompanyData(large.client, "portal-1", "42", DEFAULT_OVERDUE_RULE, mapping);
+
+    expect(large.calls).toHaveLength(small.calls.length);
+  });
+});
@@ -0,0 +1,154 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import type { SimplePublicObject } from "@hubspot/api-client/lib/codegen/crm/objects";
+import type { CompanyData, Deal, Invoice, PropertyMapping } from "@shared/schema";
+import { buildAgingReport, isOverdue, type OverdueRule } from "@shared/overdue";
+import {
+  batchReadAssociations,
+  batchReadObjects,
+  readAllAssociations,
+} from "./hubspot";
+import { storage } from "./storage";
+
+export function invoiceProperties(mapping: PropertyMapping): string[] {
+  return [
+    mapping.invoiceNumber,
+    mapping.invoiceStatus,
+    mapping.invoiceDueDate,
+    mapping.invoiceAmount,
+    mapping.invoiceCurrency,
+    mapping.badDebt,
+  ];
+}
+
+/**
+ * Maps a HubSpot invoice to the app's Invoice shape using the portal's property names.
+ * The portal's "open" status value is normalized to "open".
+ */
+export function toInvoice(obj: SimplePublicObject, mapping: PropertyMapping): Invoice {
+  const p = obj.properties;
+  const status = p[mapping.invoiceStatus] || "";
+  return {
+    id: obj.id,
+    hs_invoice_number: p[mapping.invoiceNumber] || "",
+    hs_invoice_status:
+      status.toLowerCase() === mapping.invoiceOpenStatus.toLowerCase() ? "open" : status,
+    hs_due_date: p[mapping.invoiceDueDate] || null,
+    amount: p[mapping.invoiceAmount] || null,
+    currency: p[mapping.invoiceCurrency] || null,
+    bad_debt: p[mapping.badDebt] || null,
+  };
+}
+
+/**
+ * Company with its associated deals and invoices, as returned by /api/company/:companyId.
+ * Invoices carry the portal's dispute status, so open disputes aren't counted overdue.
+ */
+export async function loadCompanyData(
+  client: HubSpotClient,
+  portalKey: string,
+  companyId: string,
+  rule: OverdueRule,
+  mapping: PropertyMapping
+): Promise<CompanyData> {
+  const companyResponse =
+    await client.crm.companies.basicApi.getById(companyId, [
+      "name",
+      mapping.badDebt,
+    ]);
+
+  const [dealAssocs, invoiceAssocs] = await Promise.all([
+    readAllAssociations(client, "companies", companyId, "deals"),
+    readAllAssociations(client, "companies", companyId, "invoices"),
+  ]);
+
+  const dealIds = dealAssocs.ids;
+  const invoiceIds = invoiceAssocs.ids;
+
+  const [dealObjects, invoiceObjects, invoiceDealAssocs] = await Promise.all([
+    batchReadObjects(client, "deals", dealIds, [
+      "dealname",
+      "amount",
+      "dealstage",
+      "closedate",
+      "deal_currency_code",
+      mapping.badDebt,
+    ]),
+    batchReadObjects(client, "invoices", invoiceIds, invoiceProperties(mapping)),
+    batchReadAssociations(client, "invoices", "deals", invoiceIds),
+  ]);
+  const invoiceDealIds = invoiceDealAssocs.associations;
+
+  const deals: Deal[] = [];
+  for (const id of dealIds) {
+    const deal = dealObjects.get(id);
+    if (!deal) continue;
+    deals.push({
+      id: deal.id,
+      dealname: deal.properties.dealname || "",
+      amount: deal.properties.amount || null,
+      currency: deal.properties.deal_currency_code || null,
+      dealstage: deal.properties.dealstage || "",
+      closedate: deal.properties.closedate || null,
+      bad_debt: deal.properties[mapping.badDebt] || null,
+    });
+  }
+
+  const dealMap = new Map<string, string>();
+  for (const deal of deals) dealMap.set(deal.id, deal.dealname);
+
+  // Invoices can be linked to deals that aren't associated with this company
+  const missingDealIds: string[] = [];
+  invoiceDealIds.forEach((ids) => {
+    if (ids[0] && !dealMap.has(ids[0])) missingDealIds.push(ids[0]);
+  });
+  const missingDeals = await batchReadObjects(
+    client,
+    "deals",
+    missingDealIds,
+    ["dealname"]
+  );
+  missingDeals.forEach((deal) => {
+    dealMap.set(deal.id, deal.properties.dealname || "");
+  });
+
+  const disputes = new Map(
+    (await storage.getInvoiceDisputes(portalKey, companyId)).map((d) => [d.invoiceId, d.status])
+  );
+
+  const invoices: Invoice[] = [];
+  const now = new Date();
+
+  for (const id of invoiceIds) {
+    const invoice = invoiceObjects.get(id);
+    if (!invoice) continue;
+
+    const dealId = invoiceDealIds.get(id)?.[0] || null;
+    const dealName = dealId ? dealMap.get(dealId) || null : null;
+
+    invoices.push({
+      ...toInvoice(invoice, mapping),
+      dealId,
+      dealName,
+      dispute: disputes.get(id) ?? null,
+    });
+  }
+
+  const overdueCount = invoices.filter((i) => isOverdue(i, rule, now)).length;
+
+  return {
+    company: {
+      id: companyResponse.id,
+      name: companyResponse.properties.name || "",
+      bad_debt: companyResponse.properties[mapping.badDebt] || "false",
+    },
+    deals,
+    invoices,
+    overdueCount,
+    aging: buildAgingReport(invoices, rule, now),
+    overdueRule: rule,
+    truncated:
+      dealAssocs.truncated ||
+      invoiceAssocs.truncated ||
+      invoiceDealAssocs.truncated,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { decryptValue, encryptValue, getKeyId, isEncrypted, parseKeyring } from "./crypto";
+
+const GCM_AUTH_FAILURE = /unable to authenticate data/;
+
+const k1 = parseKeyring("k1:old-secret")!;
+// k2 is active, k1 is kept so older values still decrypt
+const rotated = parseKeyring("k2:new-secret, k1:old-secret")!;
+
+/** Flips one byte of a value's base64 part (2 = wrapped key, 3 = payload). */
+function tamper(value: string, part: 2 | 3): string {
+  const parts = value.split(":");
+  const bytes = Buffer.from(parts[part + 1], "base64");
+  bytes[bytes.length - 1] ^= 1;
+  parts[part + 1] = bytes.toString("base64");
+  return parts.join(":");
+}
+
+describe("parseKeyring", () => {
+  it("makes the first key active", () => {
+    expect(rotated.activeKeyId).toBe("k2");
+    expect(Array.from(rotated.keys.keys())).toEqual(["k2", "k1"]);
+    expect(rotated.keys.get("k1")).toEqual(k1.keys.get("k1"));
+  });
+
+  it("rejects entries without an id or secret", () => {
+    expect(() => parseKeyring("k1:")).toThrow(/keyId:secret/);
+    expect(() => parseKeyring(":secret")).toThrow(/keyId:secret/);
+    expect(parseKeyring("")).toBeNull();
+  });
+});
+
+describe("encryptValue", () => {
+  it("round-trips under the active key", () => {
+    const value = encryptValue(k1, "access-token-ü");
+
+    expect(isEncrypted(value)).toBe(true);
+    expect(getKeyId(value)).toBe("k1");
+    expect(value).not.toContain("access-token");
+    expect(decryptValue(k1, value)).toBe("access-token-ü");
+  });
+
+  it("uses a fresh data key and IV for every value", () => {
+    expect(encryptValue(k1, "same")).not.toBe(encryptValue(k1, "same"));
+  });
+
+  it("leaves values written before encryption as they are", () => {
+    expect(decryptValue(k1, "plain-token")).toBe("plain-token");
+    expect(getKeyId("plain-token")).toBeNull();
+  });
+});
+
+describe("decryptValue", () => {
+  const value = encryptValue(k1, "refresh-token");
+
+  it("fails GCM authentication under a different secret for the key id", () => {
+    const wrongSecret = parseKeyring("k1:another-secret")!;
+    expect(() => decryptValue(wrongSecret, value)).toThrow(GCM_AUTH_FAILURE);
+  });
+
+  it("fails GCM authentication when the wrapped key or payload was changed", () => {
+    expect(() => decryptValue(k1, tamper(value, 2))).toThrow(GCM_AUTH_FAILURE);
+    expect(() => decryptValue(k1, tamper(value, 3))).toThrow(GCM_AUTH_FAILURE);
+  });
+
+  it("names a key id missing from the keyring", () => {
+    expect(() => decryptValue(parseKeyring("k2:new-secret")!, value)).toThrow(
+      "Unknown token encryption key id: k1"
+    );
+  });
+});
+
+describe("key rotation", () => {
+  it("re-encrypts old values under the new key id", () => {
+    const old = encryptValue(k1, "access-token");
+
+    // as script/rotate-token-key.ts does for each stored token
+    const reencrypted = encryptValue(rotated, decryptValue(rotated, old));
+
+    expect(getKeyId(reencrypted)).toBe("k2");
+    // the old key can be dropped once everything is re-encrypted
+    expect(decryptValue(parseKeyring("k2:new-secret")!, reencrypted)).toBe("access-token");
+    expect(() => decryptValue(k1, reencrypted)).toThrow("Unknown token encryption key id: k2");
+  });
+});
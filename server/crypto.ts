@@ -0,0 +1,108 @@
+import crypto from "crypto";
+
+/**
+ * Envelope encryption for secrets stored at rest (OAuth tokens).
+ *
+ * Every value gets its own random data key (DEK) which encrypts the plaintext;
+ * the DEK itself is wrapped with a master key (KEK) from TOKEN_ENCRYPTION_KEYS.
+ * Both layers use AES-256-GCM. The KEK id is stored with the value so old keys
+ * can be kept around for decryption while new writes use the active key.
+ *
+ * TOKEN_ENCRYPTION_KEYS format: "newId:secret,oldId:oldSecret" — the first entry
+ * is the active key. Secrets can be any string; they are hashed to 32 bytes.
+ */
+
+const PREFIX = "enc:v1";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+export function parseKeyring(value: string | undefined): Keyring | null {
+  if (!value) return null;
+
+  const keys = new Map<string, Buffer>();
+  let activeKeyId: string | null = null;
+
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const sep = trimmed.indexOf(":");
+    if (sep <= 0 || sep === trimmed.length - 1) {
+      throw new Error(
+        "Invalid TOKEN_ENCRYPTION_KEYS entry, expected 'keyId:secret'"
+      );
+    }
+
+    const id = trimmed.slice(0, sep);
+    const secret = trimmed.slice(sep + 1);
+    keys.set(id, crypto.createHash("sha256").update(secret).digest());
+    if (!activeKeyId) activeKeyId = id;
+  }
+
+  return activeKeyId ? { activeKeyId, keys } : null;
+}
+
+export const keyring = parseKeyring(process.env.TOKEN_ENCRYPTION_KEYS);
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const ciphertext = sealed.subarray(IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+/** Returns the key id a value was encrypted with, or null for plaintext. */
+export function getKeyId(value: string): string | null {
+  if (!isEncrypted(value)) return null;
+  return value.split(":")[2] || null;
+}
+
+export function encryptValue(ring: Keyring, plaintext: string): string {
+  const kek = ring.keys.get(ring.activeKeyId)!;
+  const dek = crypto.randomBytes(32);
+
+  const wrappedKey = seal(kek, dek);
+  const payload = seal(dek, Buffer.from(plaintext, "utf8"));
+
+  return [
+    PREFIX,
+    ring.activeKeyId,
+    wrappedKey.toString("base64"),
+    payload.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Decrypts a value produced by encryptValue. Plaintext values (written before
+ * encryption was enabled) are returned unchanged.
+ */
+export function decryptValue(ring: Keyring, value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const [, , keyId, wrappedKey, payload] = value.split(":");
+  const kek = ring.keys.get(keyId);
+  if (!kek) {
+    throw new Error(`Unknown token encryption key id: ${keyId}`);
+  }
+
+  const dek = open(kek, Buffer.from(wrappedKey, "base64"));
+  return open(dek, Buffer.from(payload, "base64")).toString("utf8");
+}
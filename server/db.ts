@@ -0,0 +1,15 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+/**
+ * Postgres connection, only created when DATABASE_URL is configured.
+ * Without it the app falls back to in-memory storage.
+ */
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db = pool ? drizzle(pool, { schema }) : null;
+
+export type Database = NonNullable<typeof db>;
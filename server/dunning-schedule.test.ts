@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import { portalSettingsSchema } from "@shared/schema";
+import { DunningError } from "./dunning";
+import { dueStage, runCompanyDunning } from "./dunning-schedule";
+import { storage } from "./storage";
+
+const settings = portalSettingsSchema.parse({});
+const { stages } = settings.dunning;
+
+describe("dueStage", () => {
+  it.each([
+    { days: 6, stage: null },
+    { days: 7, stage: 7 },
+    { days: 29, stage: 7 },
+    { days: 30, stage: 30 },
+    { days: 75, stage: 60 },
+    { days: 400, stage: 90 },
+  ])("$days days past due reaches day $stage", ({ days, stage }) => {
+    expect(dueStage(stages, days)?.day ?? null).toBe(stage);
+  });
+
+  it("reaches nothing without stages", () => {
+    expect(dueStage([], 400)).toBeNull();
+  });
+});
+
+describe("runCompanyDunning", () => {
+  // 2024-04-05 is 65 days after 2024-01-31: the collections stage
+  const invoices: Record<string, Record<string, string>> = {
+    "201": { hs_invoice_number: "INV-201", hs_due_date: "2024-01-31" },
+    "202": { hs_invoice_number: "INV-202", hs_due_date: "2023-12-01" },
+    "203": { hs_invoice_number: "INV-203", hs_due_date: "2023-12-01", bad_debt: "true" },
+    "204": { hs_invoice_number: "INV-204", hs_due_date: "2023-12-01", hs_invoice_status: "paid" },
+  };
+
+  const client = {
+    apiRequest: async () => ({ ok: true, json: async () => ({ timeZone: "UTC" }) }),
+    crm: {
+      companies: {
+        basicApi: { getById: async (id: string) => ({ id, properties: { name: "Acme Ltd" } }) },
+      },
+      objects: {
+        batchApi: {
+          read: async (objectType: string, { inputs }: { inputs: { id: string }[] }) => ({
+            results:
+              objectType === "invoices"
+                ? inputs.map(({ id }) => ({
+                    id,
+                    properties: { hs_invoice_status: "open", amount: "100", ...invoices[id] },
+                  }))
+                : [],
+          }),
+        },
+      },
+      associations: {
+        v4: {
+          basicApi: {
+            getPage: async (_from: string, _id: string, to: string) => ({
+              results:
+                to === "invoices"
+                  ? Object.keys(invoices).map((id) => ({ toObjectId: Number(id) }))
+                  : [],
+            }),
+          },
+          batchApi: {
+            getPage: async (
+              _from: string,
+              _to: string,
+              { inputs }: { inputs: { id: string }[] }
+            ) => ({ results: inputs.map(({ id }) => ({ _from: { id }, to: [] })) }),
+          },
+        },
+      },
+    },
+  } as unknown as HubSpotClient;
+
+  let portalId = 0;
+  const nextPortal = () => `schedule-${++portalId}`;
+  const recordAudit = async () => {};
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-04-05T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("carries out the stage each open invoice has reached, once", async () => {
+    const portalKey = nextPortal();
+    // 202 would be due for a write-off if it weren't disputed
+    await storage.saveInvoiceDispute({
+      portalId: portalKey,
+      companyId: "100",
+      invoiceId: "202",
+      status: "under_review",
+      openedBy: "u1",
+    });
+    const options = { trigger: "manual" as const, recordAudit };
+
+    const run = await runCompanyDunning(client, portalKey, "100", settings, options);
+
+    expect(run.error).toBeUndefined();
+    expect(run.items).toEqual([
+      expect.objectContaining({
+        invoiceId: "201",
+        daysPastDue: 65,
+        stageDay: 60,
+        action: "collections",
+        status: "done",
+      }),
+    ]);
+    expect(await storage.getDunningStates(portalKey, "100")).toEqual([
+      expect.objectContaining({ invoiceId: "201", stageDay: 60 }),
+    ]);
+
+    const again = await runCompanyDunning(client, portalKey, "100", settings, options);
+    expect(again.items).toEqual([]);
+  });
+
+  it("only plans stages on a dry run", async () => {
+    const portalKey = nextPortal();
+
+    const run = await runCompanyDunning(client, portalKey, "100", settings, {
+      trigger: "manual",
+      dryRun: true,
+      recordAudit,
+    });
+
+    expect(run.items.map((i) => [i.invoiceId, i.stageDay, i.status])).toEqual([
+      ["201", 60, "planned"],
+      ["202", 90, "planned"],
+    ]);
+    expect(await storage.getDunningStates(portalKey, "100")).toEqual([]);
+    expect(await storage.getDunningEvents(portalKey, "100")).toEqual([]);
+  });
+
+  it("refuses to run for a paused company", async () => {
+    const portalKey = nextPortal();
+    await storage.saveDunningPause({ portalId: portalKey, companyId: "100", reason: "Call first" });
+
+    const running = runCompanyDunning(client, portalKey, "100", settings, {
+      trigger: "manual",
+      recordAudit,
+    });
+
+    await expect(running).rejects.toBeInstanceOf(DunningError);
+    await expect(running).rejects.toMatchObject({ status: 409 });
+    expect(await storage.getDunningEvents(portalKey, "100")).toEqual([]);
+  });
+});
@@ -0,0 +1,330 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import {
+  dunningStageLabel,
+  isOpenDispute,
+  type DunningRun,
+  type DunningRunItem,
+  type DunningStage,
+  type InsertAuditEvent,
+  type Invoice,
+  type PortalSettings,
+  type WriteOffDetails,
+} from "@shared/schema";
+import { daysPastDue, type OverdueRule } from "@shared/overdue";
+import { needsApproval, requestWriteOff } from "./approvals";
+import { bulkMarkInvoicesBadDebt } from "./bad-debt";
+import { loadCompanyData } from "./company";
+import { DunningError, sendDunningEmail } from "./dunning";
+import { batchReadAssociations } from "./hubspot";
+import { searchOverdueInvoices } from "./overdue";
+import { getOverdueRule } from "./portal";
+import { startPortalScheduler, type SchedulerDeps } from "./scheduler";
+import { storage } from "./storage";
+
+/**
+ * Escalation stages: each invoice moves through the portal's dunning stages
+ * (reminder, final notice, collections hand-off, write-off, ...) as it gets
+ * older. A run carries out the latest stage an invoice has reached, once;
+ * earlier stages it skipped past are not replayed. Companies with paused
+ * dunning and invoices under open dispute are left alone.
+ */
+
+// Invoices handled per portal-wide run; the rest wait for the next one
+const MAX_INVOICES_PER_RUN = parseInt(process.env.DUNNING_MAX_INVOICES || "500", 10);
+
+const SEARCH_PAGE_SIZE = 100;
+
+const running = new Set<string>();
+
+interface Candidate {
+  invoice: Invoice;
+  companyId: string;
+  daysPastDue: number;
+}
+
+type RecordAudit = (events: InsertAuditEvent[]) => Promise<void>;
+
+/** The latest stage an invoice this many days past due has reached. */
+export function dueStage(stages: DunningStage[], days: number): DunningStage | null {
+  let reached: DunningStage | null = null;
+  for (const stage of stages) {
+    if (stage.day <= days) reached = stage;
+  }
+  return reached;
+}
+
+async function runStage(
+  client: HubSpotClient,
+  portalKey: string,
+  settings: PortalSettings,
+  rule: OverdueRule,
+  { invoice, companyId, daysPastDue }: Candidate,
+  stage: DunningStage,
+  recordAudit: RecordAudit
+): Promise<Pick<DunningRunItem, "status" | "message">> {
+  if (stage.action === "email") {
+    try {
+      const response = await sendDunningEmail(
+        client,
+        portalKey,
+        { companyId, invoiceId: invoice.id, template: stage.template! },
+        settings,
+        rule,
+        null
+      );
+      return {
+        status: response.success ? "done" : "failed",
+        message: [response.message, ...(response.warnings ?? [])].join(" · "),
+      };
+    } catch (e: any) {
+      if (e instanceof DunningError) return { status: "failed", message: e.message };
+      throw e;
+    }
+  }
+
+  if (stage.action === "collections") {
+    return { status: "done", message: "Handed off to collections" };
+  }
+
+  const reason = `Dunning: ${daysPastDue} days overdue`;
+  const details: WriteOffDetails = { category: "uncollectable", note: reason };
+  if (needsApproval(invoice.amount, settings)) {
+    const request = await requestWriteOff(portalKey, companyId, invoice, null, details, reason);
+    return { status: "requested", message: `Write-off request #${request.id}` };
+  }
+
+  const { response, audit } = await bulkMarkInvoicesBadDebt(
+    client,
+    [invoice],
+    { portalId: portalKey, hubspotUserId: null, companyId, reason },
+    details,
+    settings.properties
+  );
+  await recordAudit(audit);
+  const result = response.results[0];
+  return result?.success
+    ? { status: "done", message: "Written off as bad debt" }
+    : { status: "failed", message: result?.message || response.companyError || "Not written off" };
+}
+
+async function processCandidates(
+  client: HubSpotClient,
+  portalKey: string,
+  settings: PortalSettings,
+  rule: OverdueRule,
+  candidates: Candidate[],
+  run: DunningRun,
+  recordAudit: RecordAudit
+) {
+  const { stages } = settings.dunning;
+  const companyIds = Array.from(new Set(candidates.map((c) => c.companyId)));
+
+  for (const companyId of companyIds) {
+    const states = new Map(
+      (await storage.getDunningStates(portalKey, companyId)).map((s) => [s.invoiceId, s])
+    );
+
+    for (const candidate of candidates.filter((c) => c.companyId === companyId)) {
+      const stage = dueStage(stages, candidate.daysPastDue);
+      const state = states.get(candidate.invoice.id);
+      if (!stage || (state && state.stageDay >= stage.day)) continue;
+
+      const item: DunningRunItem = {
+        invoiceId: candidate.invoice.id,
+        invoiceNumber: candidate.invoice.hs_invoice_number || null,
+        companyId,
+        daysPastDue: candidate.daysPastDue,
+        stageDay: stage.day,
+        action: stage.action,
+        status: "planned",
+        message: dunningStageLabel(stage),
+      };
+      run.items.push(item);
+      if (run.dryRun) continue;
+
+      let outcome: Pick<DunningRunItem, "status" | "message">;
+      try {
+        outcome = await runStage(
+          client,
+          portalKey,
+          settings,
+          rule,
+          candidate,
+          stage,
+          recordAudit
+        );
+      } catch (e: any) {
+        console.error(`Dunning stage failed for invoice ${candidate.invoice.id}:`, e?.response?.body || e);
+        outcome = {
+          status: "failed",
+          message: e?.body?.message || e?.response?.body?.message || e?.message || "Unknown error",
+        };
+      }
+      Object.assign(item, outcome);
+
+      await storage.addDunningEvent({
+        portalId: portalKey,
+        companyId,
+        invoiceId: candidate.invoice.id,
+        stageDay: stage.day,
+        action: stage.action,
+        status: outcome.status === "planned" ? "done" : outcome.status,
+        message: `${dunningStageLabel(stage)}: ${outcome.message ?? ""}`,
+      });
+      // failed stages are retried on the next run
+      if (outcome.status !== "failed") {
+        await storage.saveDunningState({
+          portalId: portalKey,
+          invoiceId: candidate.invoice.id,
+          companyId,
+          stageDay: stage.day,
+          action: stage.action,
+        });
+      }
+    }
+  }
+}
+
+async function withRun(
+  portalKey: string,
+  companyId: string | null,
+  options: { trigger: DunningRun["trigger"]; dryRun?: boolean },
+  fn: (run: DunningRun) => Promise<void>
+): Promise<DunningRun> {
+  if (running.has(portalKey)) {
+    throw new DunningError("A dunning run is already in progress", 409);
+  }
+  running.add(portalKey);
+
+  const run: DunningRun = {
+    portalId: portalKey,
+    companyId,
+    trigger: options.trigger,
+    dryRun: options.dryRun ?? false,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    truncated: false,
+    items: [],
+  };
+  try {
+    await fn(run);
+  } catch (e: any) {
+    console.error(`Dunning run failed for ${portalKey}:`, e?.response?.body || e);
+    run.error = e?.body?.message || e?.response?.body?.message || e?.message || "Unknown error";
+  } finally {
+    run.finishedAt = new Date().toISOString();
+    running.delete(portalKey);
+  }
+  return run;
+}
+
+/**
+ * Runs the dunning stages for one company's open invoices. Throws
+ * DunningError when the company's dunning is paused.
+ */
+export async function runCompanyDunning(
+  client: HubSpotClient,
+  portalKey: string,
+  companyId: string,
+  settings: PortalSettings,
+  options: { trigger: DunningRun["trigger"]; dryRun?: boolean; recordAudit: RecordAudit }
+): Promise<DunningRun> {
+  if (await storage.getDunningPause(portalKey, companyId)) {
+    throw new DunningError("Dunning is paused for this company", 409);
+  }
+
+  return withRun(portalKey, companyId, options, async (run) => {
+    const rule = await getOverdueRule(client, portalKey, settings);
+    const data = await loadCompanyData(client, portalKey, companyId, rule, settings.properties);
+    run.truncated = !!data.truncated;
+
+    const candidates = data.invoices
+      .filter(
+        (i) =>
+          i.hs_invoice_status.toLowerCase() === "open" &&
+          i.bad_debt !== "true" &&
+          !isOpenDispute(i.dispute) &&
+          i.hs_due_date
+      )
+      .map((i) => ({ invoice: i, companyId, daysPastDue: daysPastDue(i.hs_due_date!, rule) }));
+    await processCandidates(client, portalKey, settings, rule, candidates, run, options.recordAudit);
+  });
+}
+
+/**
+ * Runs the dunning stages for open invoices across the portal, most overdue
+ * first, up to MAX_INVOICES_PER_RUN.
+ */
+export async function runPortalDunning(
+  client: HubSpotClient,
+  portalKey: string,
+  settings: PortalSettings,
+  options: { trigger: DunningRun["trigger"]; dryRun?: boolean; recordAudit: RecordAudit }
+): Promise<DunningRun> {
+  return withRun(portalKey, null, options, async (run) => {
+    const { stages } = settings.dunning;
+    if (!stages.length) return;
+
+    const rule = await getOverdueRule(client, portalKey, settings);
+    // search returns invoices more than graceDays past due
+    const threshold = { ...rule, graceDays: stages[0].day - 1 };
+    const paused = new Set(
+      (await storage.getDunningPauses(portalKey)).map((p) => p.companyId)
+    );
+    const disputed = (await storage.getOpenDisputes(portalKey)).map((d) => d.invoiceId);
+
+    const candidates: Candidate[] = [];
+    let after: string | undefined;
+    do {
+      const page = await searchOverdueInvoices(
+        client,
+        { sort: "daysOverdue", order: "desc", limit: SEARCH_PAGE_SIZE, after },
+        threshold,
+        settings.properties,
+        disputed
+      );
+      for (const i of page.results) {
+        if (i.bad_debt === "true" || !i.companyId || paused.has(i.companyId)) continue;
+        candidates.push({
+          invoice: i,
+          companyId: i.companyId,
+          daysPastDue: daysPastDue(i.hs_due_date!, rule),
+        });
+      }
+      after = page.nextAfter || undefined;
+    } while (after && candidates.length < MAX_INVOICES_PER_RUN);
+
+    run.truncated = !!after || candidates.length > MAX_INVOICES_PER_RUN;
+    const batch = candidates.slice(0, MAX_INVOICES_PER_RUN);
+
+    // write-offs cascade to the invoice's deal
+    if (stages.some((s) => s.action === "write_off")) {
+      const { associations } = await batchReadAssociations(
+        client,
+        "invoices",
+        "deals",
+        batch.map((c) => c.invoice.id)
+      );
+      for (const c of batch) c.invoice.dealId = associations.get(c.invoice.id)?.[0] || null;
+    }
+
+    await processCandidates(client, portalKey, settings, rule, batch, run, options.recordAudit);
+  });
+}
+
+/**
+ * Runs each portal's dunning stages on its schedule. Returns a function that
+ * stops the scheduler.
+ */
+export function startDunningScheduler(deps: SchedulerDeps): () => void {
+  return startPortalScheduler(deps, {
+    name: "Dunning",
+    schedule: (settings) => (settings.dunning.enabled ? settings.dunning.schedule : null),
+    isRunning: (portalKey) => running.has(portalKey),
+    run: (client, portalKey, settings) =>
+      runPortalDunning(client, portalKey, settings, {
+        trigger: "schedule",
+        recordAudit: deps.recordAudit,
+      }),
+  });
+}
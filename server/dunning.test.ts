@@ -0,0 +1,218 @@
+import nodemailer from "nodemailer";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import { portalSettingsSchema, type SendDunningEmailRequest } from "@shared/schema";
+import { DunningError, renderTemplate, sendDunningEmail } from "./dunning";
+import { setMailTransport } from "./mailer";
+import { storage } from "./storage";
+
+// MAIL_FROM is read when the mailer module loads
+vi.hoisted(() => {
+  process.env.MAIL_FROM = "billing@example.com";
+});
+
+const rule = { timeZone: "UTC", graceDays: 0 };
+const settings = portalSettingsSchema.parse({
+  dunning: { fromName: "Acme Billing", replyTo: "ar@example.com" },
+});
+
+type Objects = Record<string, Record<string, string | null>>;
+
+/**
+ * HubSpot client stub for company 100 with open invoice 201 (due 2024-01-31),
+ * recording the email engagement and its associations.
+ */
+function portalClient(contacts: { invoice?: Objects; company?: Objects } = {}) {
+  const byType: Record<string, Objects> = {
+    invoices: {
+      "201": {
+        hs_invoice_number: "INV-201",
+        hs_invoice_status: "open",
+        hs_due_date: "2024-01-31",
+        amount: "1250",
+        hs_currency: "USD",
+      },
+    },
+    contacts: { ...contacts.invoice, ...contacts.company },
+  };
+  const associated: Record<string, string[]> = {
+    "invoices:201:companies": ["100"],
+    "invoices:201:contacts": Object.keys(contacts.invoice ?? {}),
+    "companies:100:contacts": Object.keys(contacts.company ?? {}),
+  };
+
+  const createEmail = vi.fn(async () => ({ id: "900" }));
+  const createDefault = vi.fn(async () => ({}));
+  const client = {
+    crm: {
+      companies: {
+        basicApi: { getById: async (id: string) => ({ id, properties: { name: "Acme Ltd" } }) },
+      },
+      objects: {
+        batchApi: {
+          read: async (objectType: string, { inputs }: { inputs: { id: string }[] }) => ({
+            results: inputs
+              .filter(({ id }) => byType[objectType]?.[id])
+              .map(({ id }) => ({ id, properties: byType[objectType][id] })),
+          }),
+        },
+        emails: { basicApi: { create: createEmail } },
+      },
+      associations: {
+        v4: {
+          basicApi: {
+            getPage: async (from: string, id: string, to: string) => ({
+              results: (associated[`${from}:${id}:${to}`] ?? []).map((i) => ({
+                toObjectId: Number(i),
+              })),
+            }),
+            createDefault,
+          },
+        },
+      },
+    },
+  } as unknown as HubSpotClient;
+  return { client, createEmail, createDefault };
+}
+
+const jane = { "401": { email: "jane@example.com", firstname: "Jane", lastname: "Doe" } };
+
+describe("renderTemplate", () => {
+  it("fills known fields and leaves unknown ones as written", () => {
+    const text = renderTemplate("Hi {{ contact.name }}, {{invoice.nmuber}}", {
+      "contact.name": "Jane",
+    });
+    expect(text).toBe("Hi Jane, {{invoice.nmuber}}");
+  });
+});
+
+describe("sendDunningEmail", () => {
+  // seen by the mail transport as nodemailer would build the message
+  let sent: Record<string, any>[];
+  const request: SendDunningEmailRequest = {
+    companyId: "100",
+    invoiceId: "201",
+    template: "first_reminder",
+  };
+  let portalId = 0;
+  const nextPortal = () => `dunning-${++portalId}`;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-02-15T12:00:00Z"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    sent = [];
+    const transporter = nodemailer.createTransport({ jsonTransport: true });
+    setMailTransport({
+      async send(message) {
+        const info = await transporter.sendMail(message);
+        sent.push(JSON.parse(info.message as unknown as string));
+        return { messageId: info.messageId };
+      },
+    });
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("sends the rendered template to the invoice's contact and logs it in HubSpot", async () => {
+    const { client, createEmail, createDefault } = portalClient({ invoice: jane });
+    const portalKey = nextPortal();
+
+    const response = await sendDunningEmail(client, portalKey, request, settings, rule, "u1");
+
+    expect(sent).toEqual([
+      expect.objectContaining({
+        from: { address: "billing@example.com", name: "Acme Billing" },
+        to: [{ address: "jane@example.com", name: "" }],
+        replyTo: [{ address: "ar@example.com", name: "" }],
+        subject: "Payment reminder: invoice INV-201",
+      }),
+    ]);
+    expect(sent[0].text).toContain("Dear Jane Doe,");
+    expect(sent[0].text).toContain(
+      "invoice INV-201 for $1,250.00, due on Jan 31, 2024, is now 15 days overdue."
+    );
+    expect(sent[0].text).toContain("Kind regards,\nAcme Billing");
+
+    expect(response).toMatchObject({ success: true, email: { engagementId: "900" } });
+    expect(createEmail).toHaveBeenCalledWith({
+      properties: expect.objectContaining({
+        hs_email_subject: "Payment reminder: invoice INV-201",
+        hs_email_text: sent[0].text,
+      }),
+    });
+    expect(createDefault.mock.calls).toEqual([
+      ["emails", "900", "companies", "100"],
+      ["emails", "900", "invoices", "201"],
+      ["emails", "900", "contacts", "401"],
+    ]);
+    expect(await storage.getDunningEmails(portalKey, "100", "201")).toEqual([
+      expect.objectContaining({
+        status: "sent",
+        recipient: "jane@example.com",
+        sentBy: "u1",
+        engagementId: "900",
+      }),
+    ]);
+  });
+
+  it("falls back to the company's first contact with an email address", async () => {
+    const { client } = portalClient({
+      company: { "402": { email: null, firstname: "No", lastname: "Email" }, ...jane },
+    });
+
+    await sendDunningEmail(client, nextPortal(), request, settings, rule, null);
+
+    expect(sent.map((m) => m.to[0].address)).toEqual(["jane@example.com"]);
+  });
+
+  it("fails when no contact has an email address", async () => {
+    const { client } = portalClient();
+
+    await expect(
+      sendDunningEmail(client, nextPortal(), request, settings, rule, null)
+    ).rejects.toMatchObject({ status: 422 });
+    expect(sent).toEqual([]);
+  });
+
+  it("logs a failed send", async () => {
+    const { client, createEmail } = portalClient({ invoice: jane });
+    const portalKey = nextPortal();
+    setMailTransport({ send: async () => Promise.reject(new Error("Connection refused")) });
+
+    const response = await sendDunningEmail(client, portalKey, request, settings, rule, null);
+
+    expect(response).toMatchObject({
+      success: false,
+      message: "Reminder not sent: Connection refused",
+      email: { status: "failed", error: "Connection refused" },
+    });
+    expect(createEmail).not.toHaveBeenCalled();
+  });
+
+  it("doesn't send while the company is paused or the invoice is disputed", async () => {
+    const { client } = portalClient({ invoice: jane });
+    const paused = nextPortal();
+    const disputed = nextPortal();
+    await storage.saveDunningPause({ portalId: paused, companyId: "100", reason: "Call first" });
+    await storage.saveInvoiceDispute({
+      portalId: disputed,
+      companyId: "100",
+      invoiceId: "201",
+      status: "opened",
+      openedBy: "u1",
+    });
+
+    for (const portalKey of [paused, disputed]) {
+      const sending = sendDunningEmail(client, portalKey, request, settings, rule, null);
+      await expect(sending).rejects.toBeInstanceOf(DunningError);
+      await expect(sending).rejects.toMatchObject({ status: 409 });
+    }
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,269 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import {
+  DUNNING_TEMPLATE_LABELS,
+  isOpenDispute,
+  type DunningEmail,
+  type Invoice,
+  type PortalSettings,
+  type SendDunningEmailRequest,
+  type SendDunningEmailResponse,
+} from "@shared/schema";
+import { daysPastDue, dueDayNumber, type OverdueRule } from "@shared/overdue";
+import { formatCurrency, formatDay } from "@shared/format";
+import { invoiceProperties, toInvoice } from "./company";
+import { batchReadObjects, isAssociated, readAllAssociations } from "./hubspot";
+import { getMailTransport, MAIL_FROM } from "./mailer";
+import { storage } from "./storage";
+
+// Contacts read when looking for a recipient
+const CONTACT_LOOKUP_LIMIT = 20;
+
+export class DunningError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+function errorMessage(e: any): string {
+  return e?.body?.message || e?.response?.body?.message || e?.message || "Unknown error";
+}
+
+interface Recipient {
+  email: string;
+  firstName: string;
+  name: string;
+  contactId: string | null;
+}
+
+/**
+ * Fills `{{field}}` placeholders; unknown fields are left as written so a
+ * typo shows up in the sent text instead of silently disappearing.
+ */
+export function renderTemplate(template: string, fields: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) =>
+    key in fields ? fields[key] : match
+  );
+}
+
+/**
+ * First contact with an email address associated with the invoice, falling
+ * back to the company's contacts.
+ */
+async function findRecipient(
+  client: HubSpotClient,
+  companyId: string,
+  invoiceId: string
+): Promise<Recipient | null> {
+  const sources: [string, string][] = [
+    ["invoices", invoiceId],
+    ["companies", companyId],
+  ];
+  for (const [objectType, objectId] of sources) {
+    const { ids } = await readAllAssociations(
+      client,
+      objectType,
+      objectId,
+      "contacts",
+      CONTACT_LOOKUP_LIMIT
+    );
+    if (!ids.length) continue;
+
+    const contacts = await batchReadObjects(client, "contacts", ids, [
+      "email",
+      "firstname",
+      "lastname",
+    ]);
+    for (const id of ids) {
+      const p = contacts.get(id)?.properties;
+      if (!p?.email) continue;
+      const name = [p.firstname, p.lastname].filter(Boolean).join(" ");
+      return { email: p.email, firstName: p.firstname || name, name, contactId: id };
+    }
+  }
+  return null;
+}
+
+function mergeFields(
+  invoice: Invoice,
+  companyName: string,
+  recipient: Recipient,
+  rule: OverdueRule,
+  senderName: string
+): Record<string, string> {
+  const dueDay = invoice.hs_due_date ? dueDayNumber(invoice.hs_due_date, rule.timeZone) : null;
+  // No contact name: greet the company instead
+  const contactName = recipient.name || companyName;
+  return {
+    "company.name": companyName,
+    "contact.firstName": recipient.firstName || contactName,
+    "contact.name": contactName,
+    "invoice.number": invoice.hs_invoice_number || invoice.id,
+    "invoice.amount": formatCurrency(invoice.amount, invoice.currency),
+    "invoice.dueDate": dueDay === null ? "" : formatDay(dueDay),
+    "invoice.daysOverdue": invoice.hs_due_date
+      ? String(daysPastDue(invoice.hs_due_date, rule))
+      : "",
+    "sender.name": senderName,
+  };
+}
+
+/**
+ * Logs the sent reminder as an email engagement on the company, invoice and
+ * contact timelines. Returns the engagement id.
+ */
+async function logEmailEngagement(
+  client: HubSpotClient,
+  email: DunningEmail,
+  text: string,
+  from: string,
+  contactId: string | null
+): Promise<string> {
+  const engagement = await client.crm.objects.emails.basicApi.create({
+    properties: {
+      hs_timestamp: new Date().toISOString(),
+      hs_email_direction: "EMAIL",
+      hs_email_status: "SENT",
+      hs_email_subject: email.subject,
+      hs_email_text: text,
+      hs_email_headers: JSON.stringify({
+        from: { email: from },
+        to: [{ email: email.recipient }],
+      }),
+    },
+  });
+
+  const associations: [string, string | null][] = [
+    ["companies", email.companyId],
+    ["invoices", email.invoiceId],
+    ["contacts", contactId],
+  ];
+  for (const [toObjectType, toObjectId] of associations) {
+    if (!toObjectId) continue;
+    await client.crm.associations.v4.basicApi.createDefault(
+      "emails",
+      engagement.id,
+      toObjectType,
+      toObjectId
+    );
+  }
+  return engagement.id;
+}
+
+/**
+ * Sends a payment reminder for an open invoice with the portal's template,
+ * records it in the send log and logs it in HubSpot. A failed send is logged
+ * too and reported with success=false; a failed HubSpot log only adds a
+ * warning. Throws DunningError for requests that can't be sent at all.
+ */
+export async function sendDunningEmail(
+  client: HubSpotClient,
+  portalKey: string,
+  request: SendDunningEmailRequest,
+  settings: PortalSettings,
+  rule: OverdueRule,
+  sentBy: string | null
+): Promise<SendDunningEmailResponse> {
+  const transport = getMailTransport();
+  if (!transport || !MAIL_FROM) {
+    throw new DunningError("Email is not configured (SMTP and MAIL_FROM)", 503);
+  }
+
+  const { companyId, invoiceId, template } = request;
+  if (!(await isAssociated(client, "invoices", invoiceId, "companies", companyId))) {
+    throw new DunningError("Invoice is not associated with this company", 404);
+  }
+  if (await storage.getDunningPause(portalKey, companyId)) {
+    throw new DunningError("Dunning is paused for this company", 409);
+  }
+  const dispute = await storage.getInvoiceDispute(portalKey, invoiceId);
+  if (isOpenDispute(dispute?.status)) {
+    throw new DunningError("Invoice is under dispute", 409);
+  }
+
+  const objects = await batchReadObjects(
+    client,
+    "invoices",
+    [invoiceId],
+    invoiceProperties(settings.properties)
+  );
+  const obj = objects.get(invoiceId);
+  if (!obj) throw new DunningError("Invoice not found", 404);
+  const invoice = toInvoice(obj, settings.properties);
+  // not isOverdue: schedule stages may come before the grace period ends
+  if (invoice.hs_invoice_status.toLowerCase() !== "open" || invoice.bad_debt === "true") {
+    throw new DunningError("Invoice is not open", 409);
+  }
+
+  const recipient: Recipient | null = request.to
+    ? { email: request.to, firstName: "", name: "", contactId: null }
+    : await findRecipient(client, companyId, invoiceId);
+  if (!recipient) {
+    throw new DunningError("No contact with an email address on the invoice or company", 422);
+  }
+
+  const company = await client.crm.companies.basicApi.getById(companyId, ["name"]);
+  const companyName = company.properties.name || "";
+  const { fromName, replyTo, templates } = settings.dunning;
+  const fields = mergeFields(invoice, companyName, recipient, rule, fromName || "");
+  const subject = renderTemplate(templates[template].subject, fields);
+  const text = renderTemplate(templates[template].body, fields);
+  const from = fromName ? `"${fromName.replace(/"/g, "")}" <${MAIL_FROM}>` : MAIL_FROM;
+
+  const log = {
+    portalId: portalKey,
+    companyId,
+    invoiceId,
+    template,
+    recipient: recipient.email,
+    subject,
+    sentBy,
+  };
+
+  let email: DunningEmail;
+  try {
+    const { messageId } = await transport.send({
+      from,
+      to: recipient.email,
+      replyTo,
+      subject,
+      text,
+    });
+    email = await storage.addDunningEmail({ ...log, status: "sent", messageId });
+  } catch (e) {
+    console.error(`Failed to send ${template} for invoice ${invoiceId}:`, e);
+    const failed = await storage.addDunningEmail({
+      ...log,
+      status: "failed",
+      error: errorMessage(e),
+    });
+    return {
+      success: false,
+      message: `Reminder not sent: ${errorMessage(e)}`,
+      email: failed,
+    };
+  }
+
+  const response: SendDunningEmailResponse = {
+    success: true,
+    message: `${DUNNING_TEMPLATE_LABELS[template]} sent to ${recipient.email}`,
+    email,
+  };
+  try {
+    const engagementId = await logEmailEngagement(
+      client,
+      email,
+      text,
+      MAIL_FROM,
+      recipient.contactId
+    );
+    response.email =
+      (await storage.updateDunningEmail(portalKey, email.id, { engagementId })) ?? email;
+  } catch (e: any) {
+    console.error(`Failed to log reminder email in HubSpot:`, e?.response?.body || e);
+    response.warnings = [`Email not logged in HubSpot: ${errorMessage(e)}`];
+  }
+  return response;
+}
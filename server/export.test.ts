@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import ExcelJS from "exceljs";
+import type { CompanyData, CompanyExportQuery } from "@shared/schema";
+import { DEFAULT_OVERDUE_RULE } from "@shared/overdue";
+import { buildCompanyExport } from "./export";
+
+const data = {
+  company: { id: "1", name: "Acme Ltd" },
+  deals: [
+    {
+      id: "d1",
+      dealname: '=HYPERLINK("http://example.com")',
+      amount: "-5",
+      currency: "USD",
+      dealstage: "won",
+      closedate: null,
+      bad_debt: null,
+    },
+  ],
+  invoices: [
+    {
+      id: "i1",
+      hs_invoice_number: '+1, "rush"',
+      hs_invoice_status: "paid",
+      hs_due_date: "2024-01-31",
+      amount: "-12.5",
+      currency: "USD",
+      dealId: "d1",
+      dealName: "@risk\nnext line",
+    },
+  ],
+} as unknown as CompanyData;
+
+const query = (q: Partial<CompanyExportQuery>) => q as CompanyExportQuery;
+
+describe("buildCompanyExport", () => {
+  it("writes CSV with formula-like text prefixed and numbers kept numeric", async () => {
+    const file = await buildCompanyExport(
+      data,
+      DEFAULT_OVERDUE_RULE,
+      {},
+      query({ format: "csv", sheet: "invoices" })
+    );
+
+    expect(file.filename).toBe("Acme_Ltd-invoices.csv");
+    expect(file.body.toString("utf-8")).toBe(
+      "\uFEFFInvoice ID,Invoice Number,Status,Due Date,Days Overdue,Amount,Currency,Deal ID,Deal,Bad Debt,Dispute\r\n" +
+        `i1,"'+1, ""rush""",paid,2024-01-31,,-12.5,USD,d1,"'@risk\nnext line",No,`
+    );
+  });
+
+  it("writes the header row of an empty sheet", async () => {
+    const empty = { ...data, deals: [] };
+    const file = await buildCompanyExport(
+      empty,
+      DEFAULT_OVERDUE_RULE,
+      {},
+      query({ format: "csv", sheet: "deals" })
+    );
+
+    expect(file.body.toString("utf-8")).toBe(
+      "\uFEFFDeal ID,Name,Stage,Amount,Currency,Close Date,Bad Debt"
+    );
+  });
+
+  it("writes both sheets to XLSX with text kept as written", async () => {
+    const file = await buildCompanyExport(
+      data,
+      DEFAULT_OVERDUE_RULE,
+      { won: "Closed won" },
+      query({ format: "xlsx" })
+    );
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(file.body);
+    const deals = workbook.getWorksheet("Deals")!;
+
+    expect(workbook.worksheets.map((s) => s.name)).toEqual(["Invoices", "Deals"]);
+    expect(deals.getRow(2).getCell(2).value).toBe('=HYPERLINK("http://example.com")');
+    expect(deals.getRow(2).getCell(3).value).toBe("Closed won");
+    expect(deals.getRow(2).getCell(4).value).toBe(-5);
+  });
+});
@@ -0,0 +1,146 @@
+import ExcelJS from "exceljs";
+import {
+  DISPUTE_STATUS_LABELS,
+  type CompanyData,
+  type CompanyExportQuery,
+} from "@shared/schema";
+import { daysPastDue, isOverdue, type OverdueRule } from "@shared/overdue";
+import { filterDeals, filterInvoices } from "@shared/search";
+
+type Cell = string | number | null;
+type Row = Record<string, Cell>;
+
+// Leading characters that make spreadsheet apps read a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Column order, also written as the header row when there are no rows
+const INVOICE_COLUMNS = [
+  "Invoice ID",
+  "Invoice Number",
+  "Status",
+  "Due Date",
+  "Days Overdue",
+  "Amount",
+  "Currency",
+  "Deal ID",
+  "Deal",
+  "Bad Debt",
+  "Dispute",
+];
+const DEAL_COLUMNS = ["Deal ID", "Name", "Stage", "Amount", "Currency", "Close Date", "Bad Debt"];
+
+export interface CompanyExport {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+/** Company name made safe for a download file name. */
+export function exportFileName(data: CompanyData): string {
+  return (data.company?.name || data.company?.id || "company").replace(/[^\w.-]+/g, "_");
+}
+
+/**
+ * CSV text that would start a formula is prefixed with ' so it stays text
+ * (invoice and deal names come from HubSpot users). Numbers are kept as is.
+ * XLSX cells are typed, so strings there are never read as formulas.
+ */
+function safeCell(value: Cell): Cell {
+  return typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function toTable(rows: Row[], columns: string[]): Cell[][] {
+  return rows.map((row) => columns.map((column) => row[column] ?? null));
+}
+
+function csvField(value: Cell): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Row[], columns: string[]): string {
+  return [columns, ...toTable(rows, columns)]
+    .map((line) => line.map((value) => csvField(safeCell(value))).join(","))
+    .join("\r\n");
+}
+
+function addSheet(workbook: ExcelJS.Workbook, name: string, rows: Row[], columns: string[]) {
+  const sheet = workbook.addWorksheet(name);
+  sheet.addRow(columns);
+  sheet.addRows(toTable(rows, columns));
+}
+
+function toNumber(value: string | null): number | null {
+  const n = parseFloat(value ?? "");
+  return Number.isFinite(n) ? n : null;
+}
+
+function invoiceRows(data: CompanyData, rule: OverdueRule, search?: string): Row[] {
+  return filterInvoices(data.invoices, search).map((i) => ({
+    "Invoice ID": i.id,
+    "Invoice Number": i.hs_invoice_number,
+    Status: i.hs_invoice_status,
+    "Due Date": i.hs_due_date,
+    "Days Overdue": i.hs_due_date && isOverdue(i, rule) ? daysPastDue(i.hs_due_date, rule) : null,
+    Amount: toNumber(i.amount),
+    Currency: i.currency,
+    "Deal ID": i.dealId ?? null,
+    Deal: i.dealName ?? null,
+    "Bad Debt": i.bad_debt === "true" ? "Yes" : "No",
+    Dispute: i.dispute ? DISPUTE_STATUS_LABELS[i.dispute] : null,
+  }));
+}
+
+function dealRows(
+  data: CompanyData,
+  stageLabels: Record<string, string>,
+  search?: string
+): Row[] {
+  return filterDeals(data.deals, search).map((d) => ({
+    "Deal ID": d.id,
+    Name: d.dealname,
+    Stage: stageLabels[d.dealstage] ?? d.dealstage,
+    Amount: toNumber(d.amount),
+    Currency: d.currency,
+    "Close Date": d.closedate,
+    "Bad Debt": d.bad_debt === "true" ? "Yes" : "No",
+  }));
+}
+
+/**
+ * The company's invoices and deals as a file for collections agencies and
+ * accountants, filtered like the Invoice Manager tables. Overdue days use the
+ * portal's overdue rule and are empty for invoices that aren't overdue.
+ */
+export async function buildCompanyExport(
+  data: CompanyData,
+  rule: OverdueRule,
+  stageLabels: Record<string, string>,
+  query: CompanyExportQuery
+): Promise<CompanyExport> {
+  const sheets = {
+    invoices: { rows: invoiceRows(data, rule, query.invoiceSearch), columns: INVOICE_COLUMNS },
+    deals: { rows: dealRows(data, stageLabels, query.dealSearch), columns: DEAL_COLUMNS },
+  };
+  const name = exportFileName(data);
+
+  if (query.format === "csv") {
+    const { rows, columns } = sheets[query.sheet];
+    return {
+      // BOM so Excel reads the file as UTF-8
+      body: Buffer.from("\uFEFF" + toCsv(rows, columns), "utf-8"),
+      contentType: "text/csv; charset=utf-8",
+      filename: `${name}-${query.sheet}.csv`,
+    };
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  addSheet(workbook, "Invoices", sheets.invoices.rows, sheets.invoices.columns);
+  addSheet(workbook, "Deals", sheets.deals.rows, sheets.deals.columns);
+  return {
+    body: Buffer.from(await workbook.xlsx.writeBuffer()),
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    filename: `${name}-invoices-deals.xlsx`,
+  };
+}
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { callHubSpot, createHubSpotClient, getPortalMetrics } from "./hubspot-client";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  // backoff without jitter: half the exponential delay
+  vi.spyOn(Math, "random").mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("token bucket", () => {
+  it("makes calls past the 10-second burst limit wait for a token", async () => {
+    const fn = vi.fn(async () => "ok");
+    const calls = Array.from({ length: 101 }, () => callHubSpot("bucket", fn));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(100);
+
+    // one token refills every 10_000 / 100 ms
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fn).toHaveBeenCalledTimes(100);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(101);
+
+    await Promise.all(calls);
+    expect(getPortalMetrics("bucket")).toMatchObject({ calls: 101, throttledMs: 100 });
+  });
+});
+
+describe("callHubSpot", () => {
+  it.each([
+    { name: "seconds", retryAfter: "2", delay: 2000 },
+    { name: "an HTTP date", retryAfter: "Mon, 01 Jan 2024 00:00:03 GMT", delay: 3000 },
+  ])("waits for Retry-After given in $name after a 429", async ({ retryAfter, delay }) => {
+    const portalKey = `retry-after-${delay}`;
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce({ code: 429, headers: { "retry-after": retryAfter } })
+      .mockResolvedValueOnce("ok");
+
+    const result = callHubSpot(portalKey, fn);
+    await vi.advanceTimersByTimeAsync(delay - 1);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe("ok");
+    expect(getPortalMetrics(portalKey)).toMatchObject({ retries: 1, rateLimited: 1, errors: 0 });
+  });
+
+  it("backs off exponentially on 5xx for reads", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce({ code: 503 })
+      .mockRejectedValueOnce({ code: 502 })
+      .mockResolvedValueOnce("ok");
+
+    const result = callHubSpot("backoff", fn, true);
+    await vi.advanceTimersByTimeAsync(249);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("gives up after the last retry", async () => {
+    const fn = vi.fn().mockRejectedValue({ code: 500 });
+
+    const result = expect(callHubSpot("give-up", fn, true)).rejects.toEqual({ code: 500 });
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(fn).toHaveBeenCalledTimes(5);
+    expect(getPortalMetrics("give-up")).toMatchObject({ calls: 5, retries: 4, errors: 1 });
+  });
+
+  it("doesn't retry a write on 5xx or other errors", async () => {
+    const serverError = vi.fn().mockRejectedValue({ code: 502 });
+    const badRequest = vi.fn().mockRejectedValue({ code: 400 });
+
+    await expect(callHubSpot("writes", serverError)).rejects.toEqual({ code: 502 });
+    await expect(callHubSpot("writes", badRequest, true)).rejects.toEqual({ code: 400 });
+
+    expect(serverError).toHaveBeenCalledTimes(1);
+    expect(badRequest).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createHubSpotClient", () => {
+  it("retries reads on 5xx but not creates", async () => {
+    const api = createHubSpotClient("token", "client").crm.objects.notes.basicApi;
+    const getById = vi.fn().mockRejectedValueOnce({ code: 502 }).mockResolvedValueOnce({ id: "1" });
+    const create = vi.fn().mockRejectedValue({ code: 502 });
+    // no set trap: assignments go to the underlying API object
+    Object.assign(api, { getById, create });
+
+    const read = api.getById("1");
+    await vi.advanceTimersByTimeAsync(250);
+    await expect(read).resolves.toEqual({ id: "1" });
+
+    await expect(api.create({ properties: {} })).rejects.toEqual({ code: 502 });
+    expect(getById).toHaveBeenCalledTimes(2);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries writes on 429", async () => {
+    const api = createHubSpotClient("token", "client-429").crm.objects.notes.basicApi;
+    const create = vi
+      .fn()
+      .mockRejectedValueOnce({ code: 429, headers: { "retry-after": "1" } })
+      .mockResolvedValueOnce({ id: "1" });
+    Object.assign(api, { create });
+
+    const result = api.create({ properties: {} });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toEqual({ id: "1" });
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+});
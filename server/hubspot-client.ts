@@ -0,0 +1,237 @@
+import { Client as HubSpotClient } from "@hubspot/api-client";
+
+/**
+ * Rate-limit aware HubSpot client.
+ *
+ * Every call made through a `*Api` object of the client (crm.objects.basicApi,
+ * crm.associations.v4.batchApi, ...) first takes a token from a per-portal
+ * bucket sized to HubSpot's 10-second burst limit, and is retried when HubSpot
+ * answers 429 (honouring Retry-After) or, for reads, 5xx (exponential backoff
+ * with jitter). Writes aren't retried on 5xx: HubSpot may have applied them
+ * already, and a retry would create duplicate notes, emails or properties.
+ */
+
+const RATE_LIMIT = parseInt(process.env.HUBSPOT_RATE_LIMIT || "100", 10);
+const RATE_WINDOW_MS = 10_000;
+const MAX_RETRIES = parseInt(process.env.HUBSPOT_MAX_RETRIES || "4", 10);
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30_000;
+
+// API methods that only read: GETs plus the batch read and search POSTs
+const READ_METHOD = /^(get|read|doSearch)/;
+
+export interface PortalMetrics {
+  calls: number;
+  errors: number;
+  retries: number;
+  rateLimited: number;
+  throttledMs: number;
+  lastCallAt: string | null;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private capacity: number, private windowMs: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (elapsed * this.capacity) / this.windowMs
+    );
+    this.lastRefill = now;
+  }
+
+  /** Resolves with the number of ms the caller had to wait for a token. */
+  take(): Promise<number> {
+    const result = this.queue.then(async () => {
+      this.refill();
+      let waited = 0;
+      if (this.tokens < 1) {
+        waited = Math.ceil(((1 - this.tokens) * this.windowMs) / this.capacity);
+        await sleep(waited);
+        this.refill();
+      }
+      this.tokens -= 1;
+      return waited;
+    });
+    this.queue = result.then(() => undefined);
+    return result;
+  }
+
+  /** Empties the bucket, e.g. after HubSpot reported we're over the limit. */
+  drain() {
+    this.tokens = 0;
+    this.lastRefill = Date.now();
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+const metrics = new Map<string, PortalMetrics>();
+
+function getBucket(portalKey: string): TokenBucket {
+  let bucket = buckets.get(portalKey);
+  if (!bucket) {
+    bucket = new TokenBucket(RATE_LIMIT, RATE_WINDOW_MS);
+    buckets.set(portalKey, bucket);
+  }
+  return bucket;
+}
+
+function getMetrics(portalKey: string): PortalMetrics {
+  let m = metrics.get(portalKey);
+  if (!m) {
+    m = {
+      calls: 0,
+      errors: 0,
+      retries: 0,
+      rateLimited: 0,
+      throttledMs: 0,
+      lastCallAt: null,
+    };
+    metrics.set(portalKey, m);
+  }
+  return m;
+}
+
+export function getPortalMetrics(portalKey: string): PortalMetrics {
+  return { ...getMetrics(portalKey) };
+}
+
+export function getAllPortalMetrics(): Record<string, PortalMetrics> {
+  const all: Record<string, PortalMetrics> = {};
+  metrics.forEach((m, key) => {
+    all[key] = { ...m };
+  });
+  return all;
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+export function getStatusCode(err: any): number {
+  return err?.code ?? err?.response?.statusCode ?? err?.statusCode ?? 0;
+}
+
+function getRetryAfterMs(err: any): number | null {
+  const headers = err?.headers || err?.response?.headers || {};
+  const value = headers["retry-after"] ?? headers["Retry-After"];
+  if (value == null) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number): number {
+  const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+/**
+ * Runs a single HubSpot call for a portal with rate limiting, retries and metrics.
+ * 429s are always retried; 5xx only when `retryServerErrors` (safe for reads).
+ */
+export async function callHubSpot<T>(
+  portalKey: string,
+  fn: () => Promise<T>,
+  retryServerErrors = false
+): Promise<T> {
+  const bucket = getBucket(portalKey);
+  const m = getMetrics(portalKey);
+
+  for (let attempt = 0; ; attempt++) {
+    m.throttledMs += await bucket.take();
+    m.calls++;
+    m.lastCallAt = new Date().toISOString();
+
+    try {
+      return await fn();
+    } catch (err: any) {
+      const status = getStatusCode(err);
+      const retryable =
+        status === 429 || (retryServerErrors && status >= 500 && status <= 599);
+
+      if (!retryable || attempt >= MAX_RETRIES) {
+        m.errors++;
+        throw err;
+      }
+
+      let delay: number;
+      if (status === 429) {
+        m.rateLimited++;
+        bucket.drain();
+        delay = getRetryAfterMs(err) ?? backoffMs(attempt);
+      } else {
+        delay = backoffMs(attempt);
+      }
+
+      m.retries++;
+      console.warn(
+        `HubSpot ${status} for portal ${portalKey}, retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+function wrap<T extends object>(
+  target: T,
+  portalKey: string,
+  isApi: boolean,
+  cache: WeakMap<object, any>
+): T {
+  const cached = cache.get(target);
+  if (cached) return cached;
+
+  const proxy = new Proxy(target, {
+    get(obj, prop) {
+      // Getters run against the raw object so the client's internals never see the proxy
+      const value = Reflect.get(obj, prop);
+
+      if (typeof value === "function") {
+        if (!isApi) return value.bind(obj);
+        return (...args: unknown[]) =>
+          callHubSpot(
+            portalKey,
+            () => value.apply(obj, args),
+            typeof prop === "string" && READ_METHOD.test(prop)
+          );
+      }
+
+      if (value && typeof value === "object") {
+        return wrap(
+          value,
+          portalKey,
+          typeof prop === "string" && prop.endsWith("Api"),
+          cache
+        );
+      }
+
+      return value;
+    },
+  });
+
+  cache.set(target, proxy);
+  return proxy;
+}
+
+/**
+ * Creates a HubSpot client whose API calls are rate limited and retried per portal.
+ */
+export function createHubSpotClient(
+  accessToken: string,
+  portalKey: string
+): HubSpotClient {
+  const client = new HubSpotClient({ accessToken });
+  return wrap(client, portalKey, false, new WeakMap());
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import { batchReadAssociations, batchReadObjects } from "./hubspot";
+
+function clientWith(read: () => Promise<unknown>, getById: (type: string, id: string) => Promise<unknown>) {
+  return {
+    crm: { objects: { batchApi: { read }, basicApi: { getById } } },
+  } as unknown as HubSpotClient;
+}
+
+describe("batchReadObjects", () => {
+  it("retries a failed batch one object at a time", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const getById = vi.fn(async (_type: string, id: string) => {
+      if (id === "2") throw { code: 404 };
+      return { id, properties: {} };
+    });
+    const client = clientWith(async () => Promise.reject({ code: 500 }), getById);
+
+    const objects = await batchReadObjects(client, "invoices", ["1", "2", "3"], []);
+
+    expect(getById).toHaveBeenCalledTimes(3);
+    expect(Array.from(objects.keys())).toEqual(["1", "3"]);
+  });
+
+  it("throws when an object still can't be read", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const client = clientWith(
+      async () => Promise.reject({ code: 500 }),
+      async () => Promise.reject({ code: 429 })
+    );
+
+    await expect(batchReadObjects(client, "invoices", ["1"], [])).rejects.toEqual({ code: 429 });
+  });
+});
+
+describe("batchReadAssociations", () => {
+  const ids = Array.from({ length: 150 }, (_, i) => String(5000 + i));
+
+  function associationClient(getPage: (id: string) => Promise<unknown>) {
+    const batchGetPage = vi.fn(
+      async (_from: string, _to: string, { inputs }: { inputs: { id: string }[] }) => {
+        // the second batch of 100 fails
+        if (inputs.some((i) => i.id === ids[100])) throw { code: 502 };
+        return { results: inputs.map(({ id }) => ({ _from: { id }, to: [{ toObjectId: 1 }] })) };
+      }
+    );
+    const basicGetPage = vi.fn(async (_from: string, id: string) => getPage(id));
+    const client = {
+      crm: {
+        associations: {
+          v4: { batchApi: { getPage: batchGetPage }, basicApi: { getPage: basicGetPage } },
+        },
+      },
+    } as unknown as HubSpotClient;
+    return { client, basicGetPage };
+  }
+
+  it("reads a failed batch one object at a time", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { client, basicGetPage } = associationClient(async () => ({
+      results: [{ toObjectId: 2 }],
+    }));
+
+    const { associations, truncated } = await batchReadAssociations(client, "invoices", "deals", ids);
+
+    expect(basicGetPage).toHaveBeenCalledTimes(50);
+    expect(associations.size).toBe(150);
+    expect(associations.get(ids[0])).toEqual(["1"]);
+    expect(associations.get(ids[149])).toEqual(["2"]);
+    expect(truncated).toBe(false);
+  });
+
+  it("throws when an object's associations still can't be read", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { client } = associationClient(async () => Promise.reject({ code: 500 }));
+
+    await expect(batchReadAssociations(client, "invoices", "deals", ids)).rejects.toEqual({
+      code: 500,
+    });
+  });
+});
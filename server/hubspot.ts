@@ -0,0 +1,233 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import type { SimplePublicObject } from "@hubspot/api-client/lib/codegen/crm/objects";
+import { getStatusCode } from "./hubspot-client";
+
+// HubSpot batch endpoints accept at most 100 ids per request
+export const BATCH_SIZE = 100;
+
+// How many batch requests may be in flight at the same time
+const BATCH_CONCURRENCY = 3;
+
+// Page size for single-object association reads (HubSpot max is 500)
+const ASSOCIATION_PAGE_SIZE = 500;
+
+// Hard cap on associations followed per object, so a huge customer can't stall a request
+export const ASSOCIATION_LIMIT = parseInt(
+  process.env.HUBSPOT_ASSOCIATION_LIMIT || "2000",
+  10
+);
+
+export interface AssociatedIds {
+  ids: string[];
+  truncated: boolean;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Like Promise.all(items.map(fn)) but with at most `limit` calls running at once.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  }
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(limit, items.length); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Batch read CRM objects by id. Ids HubSpot doesn't have are missing from the
+ * resulting map. A failed batch is retried one object at a time; anything that
+ * still can't be read throws, so callers never get a partial map.
+ */
+export async function batchReadObjects(
+  client: HubSpotClient,
+  objectType: string,
+  ids: string[],
+  properties: string[]
+): Promise<Map<string, SimplePublicObject>> {
+  const objects = new Map<string, SimplePublicObject>();
+  const unique = Array.from(new Set(ids));
+
+  await mapWithConcurrency(chunk(unique, BATCH_SIZE), BATCH_CONCURRENCY, async (batch) => {
+    try {
+      const response = await client.crm.objects.batchApi.read(objectType, {
+        inputs: batch.map((id) => ({ id })),
+        properties,
+        propertiesWithHistory: [],
+      });
+      for (const obj of response.results || []) objects.set(obj.id, obj);
+      return;
+    } catch (e: any) {
+      console.error(
+        `Failed to batch read ${objectType}, reading one at a time:`,
+        e?.response?.body || e
+      );
+    }
+
+    for (const id of batch) {
+      try {
+        const obj = await client.crm.objects.basicApi.getById(objectType, id, properties);
+        objects.set(obj.id, obj);
+      } catch (e: any) {
+        if (getStatusCode(e) !== 404) throw e;
+      }
+    }
+  });
+
+  return objects;
+}
+
+/**
+ * Read every association of one object to a type, following paging cursors
+ * up to `limit` ids.
+ */
+export async function readAllAssociations(
+  client: HubSpotClient,
+  fromObjectType: string,
+  objectId: string,
+  toObjectType: string,
+  limit = ASSOCIATION_LIMIT
+): Promise<AssociatedIds> {
+  const ids: string[] = [];
+  let after: string | undefined;
+
+  do {
+    const page = await client.crm.associations.v4.basicApi.getPage(
+      fromObjectType,
+      objectId,
+      toObjectType,
+      after,
+      ASSOCIATION_PAGE_SIZE
+    );
+    for (const assoc of page.results || []) ids.push(String(assoc.toObjectId));
+    after = page.paging?.next?.after;
+  } while (after && ids.length < limit);
+
+  return {
+    ids: ids.slice(0, limit),
+    truncated: ids.length > limit || !!after,
+  };
+}
+
+/**
+ * Whether one object is associated with another, e.g. an invoice with a company.
+ */
+export async function isAssociated(
+  client: HubSpotClient,
+  fromObjectType: string,
+  fromId: string,
+  toObjectType: string,
+  toId: string
+): Promise<boolean> {
+  const { ids } = await readAllAssociations(client, fromObjectType, fromId, toObjectType);
+  return ids.includes(toId);
+}
+
+/**
+ * Batch read associations from many objects of one type to another type,
+ * following per-object paging cursors up to `limit` ids per object.
+ * Returns fromId -> associated ids. A failed batch is retried one object at a
+ * time; anything that still can't be read throws, like batchReadObjects.
+ */
+export async function batchReadAssociations(
+  client: HubSpotClient,
+  fromObjectType: string,
+  toObjectType: string,
+  ids: string[],
+  limit = ASSOCIATION_LIMIT
+): Promise<{ associations: Map<string, string[]>; truncated: boolean }> {
+  const associations = new Map<string, string[]>();
+  let truncated = false;
+
+  let inputs: { id: string; after?: string }[] = Array.from(new Set(ids)).map(
+    (id) => ({ id })
+  );
+
+  while (inputs.length) {
+    const nextInputs: { id: string; after?: string }[] = [];
+
+    await mapWithConcurrency(chunk(inputs, BATCH_SIZE), BATCH_CONCURRENCY, async (batch) => {
+      try {
+        const response = await client.crm.associations.v4.batchApi.getPage(
+          fromObjectType,
+          toObjectType,
+          { inputs: batch }
+        );
+        for (const result of response.results || []) {
+          const fromId = result._from.id;
+          const to = associations.get(fromId) || [];
+          for (const t of result.to) to.push(String(t.toObjectId));
+
+          const after = result.paging?.next?.after;
+          if (to.length > limit) {
+            to.length = limit;
+            truncated = true;
+          } else if (after && to.length === limit) {
+            truncated = true;
+          } else if (after) {
+            nextInputs.push({ id: fromId, after });
+          }
+          associations.set(fromId, to);
+        }
+      } catch (e: any) {
+        console.error(
+          `Failed to batch read ${fromObjectType} -> ${toObjectType} associations, reading one at a time:`,
+          e?.response?.body || e
+        );
+        for (const { id } of batch) {
+          try {
+            // from the first page, replacing anything an earlier page added
+            const read = await readAllAssociations(client, fromObjectType, id, toObjectType, limit);
+            associations.set(id, read.ids);
+            if (read.truncated) truncated = true;
+          } catch (e: any) {
+            if (getStatusCode(e) !== 404) throw e;
+          }
+        }
+      }
+    });
+
+    inputs = nextInputs;
+  }
+
+  return { associations, truncated };
+}
+
+/**
+ * Deal stage id -> label across all deal pipelines.
+ */
+export async function getDealStageLabels(
+  client: HubSpotClient
+): Promise<Record<string, string>> {
+  const pipelines = await client.crm.pipelines.pipelinesApi.getAll("deals");
+
+  const map: Record<string, string> = {};
+  for (const p of pipelines.results || []) {
+    for (const s of p.stages || []) {
+      map[String(s.id)] = String(s.label || s.id);
+    }
+  }
+  return map;
+}
@@ -0,0 +1,108 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import {
+  FilterOperatorEnum,
+  type PublicObjectSearchRequest,
+} from "@hubspot/api-client/lib/codegen/crm/objects";
+import type {
+  PropertyMapping,
+  OverdueInvoice,
+  OverdueInvoicesQuery,
+  OverdueInvoicesResponse,
+} from "@shared/schema";
+import { batchReadAssociations, batchReadObjects, chunk } from "./hubspot";
+import { invoiceProperties, toInvoice } from "./company";
+import { daysPastDue, overdueCutoff, type OverdueRule } from "@shared/overdue";
+
+// HubSpot caps NOT_IN at 100 values and a filter group at 6 filters
+const EXCLUDE_CHUNK_SIZE = 100;
+const MAX_EXCLUDE_FILTERS = 4;
+
+/**
+ * Open invoices past due across the whole portal, via the CRM search API.
+ * Each page is enriched with the invoice's company so the UI can link back to it.
+ * `excludeIds` (invoices under open dispute) are filtered out in the search so
+ * totals and paging stay right; any beyond the search's filter limits are only
+ * dropped from the page.
+ */
+export async function searchOverdueInvoices(
+  client: HubSpotClient,
+  query: OverdueInvoicesQuery,
+  rule: OverdueRule,
+  mapping: PropertyMapping,
+  excludeIds: string[] = []
+): Promise<OverdueInvoicesResponse> {
+  const now = new Date();
+  const excluded = new Set(excludeIds);
+  const excludeFilters = chunk(excludeIds, EXCLUDE_CHUNK_SIZE)
+    .slice(0, MAX_EXCLUDE_FILTERS)
+    .map((values) => ({
+      propertyName: "hs_object_id",
+      operator: FilterOperatorEnum.NotIn,
+      values,
+    }));
+
+  // "-property" sorts descending. Most days overdue == oldest due date
+  const sort =
+    query.sort === "amount"
+      ? `${query.order === "asc" ? "" : "-"}${mapping.invoiceAmount}`
+      : `${query.order === "asc" ? "-" : ""}${mapping.invoiceDueDate}`;
+
+  const request: PublicObjectSearchRequest = {
+    filterGroups: [
+      {
+        filters: [
+          {
+            propertyName: mapping.invoiceStatus,
+            operator: FilterOperatorEnum.Eq,
+            value: mapping.invoiceOpenStatus,
+          },
+          {
+            propertyName: mapping.invoiceDueDate,
+            operator: FilterOperatorEnum.Lt,
+            value: String(overdueCutoff(rule, now)),
+          },
+          ...excludeFilters,
+        ],
+      },
+    ],
+    sorts: [sort],
+    properties: invoiceProperties(mapping),
+    limit: query.limit,
+    after: query.after,
+  };
+  const page = await client.crm.objects.searchApi.doSearch("invoices", request);
+
+  const found = page.results.filter((r) => !excluded.has(r.id));
+  const invoiceIds = found.map((r) => r.id);
+  const { associations } = await batchReadAssociations(
+    client,
+    "invoices",
+    "companies",
+    invoiceIds
+  );
+
+  const companyIds: string[] = [];
+  associations.forEach((ids) => {
+    if (ids[0]) companyIds.push(ids[0]);
+  });
+  const companies = await batchReadObjects(client, "companies", companyIds, ["name"]);
+
+  const results: OverdueInvoice[] = found.map((obj) => {
+    const invoice = toInvoice(obj, mapping);
+    const companyId = associations.get(obj.id)?.[0] || null;
+    return {
+      ...invoice,
+      companyId,
+      companyName: companyId
+        ? companies.get(companyId)?.properties.name || null
+        : null,
+      daysPastDue: invoice.hs_due_date ? daysPastDue(invoice.hs_due_date, rule, now) : 0,
+    };
+  });
+
+  return {
+    results,
+    total: page.total,
+    nextAfter: page.paging?.next?.after || null,
+  };
+}
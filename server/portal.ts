@@ -0,0 +1,62 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import { DEFAULT_OVERDUE_RULE, type OverdueRule } from "@shared/overdue";
+import { portalSettingsSchema, type PortalSettings } from "@shared/schema";
+import { storage } from "./storage";
+
+// Days an invoice may be past due before it counts as overdue
+const OVERDUE_GRACE_DAYS = parseInt(process.env.OVERDUE_GRACE_DAYS || "0", 10);
+
+// Account time zones rarely change, refresh them hourly
+const ACCOUNT_INFO_TTL_MS = 60 * 60 * 1000;
+
+const timeZones = new Map<string, { timeZone: string; fetchedAt: number }>();
+
+/**
+ * The portal's configured time zone, from HubSpot account info. Falls back to
+ * UTC when it can't be read.
+ */
+export async function getPortalTimeZone(
+  client: HubSpotClient,
+  portalKey: string
+): Promise<string> {
+  const cached = timeZones.get(portalKey);
+  if (cached && Date.now() - cached.fetchedAt < ACCOUNT_INFO_TTL_MS) {
+    return cached.timeZone;
+  }
+
+  try {
+    const response = await client.apiRequest({
+      method: "GET",
+      path: "/account-info/v3/details",
+    });
+    if (!response.ok) {
+      throw new Error(`account-info returned ${response.status}`);
+    }
+    const details = (await response.json()) as { timeZone?: string };
+    const timeZone = details.timeZone || DEFAULT_OVERDUE_RULE.timeZone;
+    timeZones.set(portalKey, { timeZone, fetchedAt: Date.now() });
+    return timeZone;
+  } catch (e) {
+    console.error(`Failed to fetch account time zone for ${portalKey}:`, e);
+    return cached?.timeZone || DEFAULT_OVERDUE_RULE.timeZone;
+  }
+}
+
+/**
+ * The portal's settings with defaults filled in for anything not configured.
+ */
+export async function getPortalSettings(portalKey: string): Promise<PortalSettings> {
+  const stored = await storage.getSettings(portalKey);
+  return portalSettingsSchema.parse(stored ?? {});
+}
+
+export async function getOverdueRule(
+  client: HubSpotClient,
+  portalKey: string,
+  settings: PortalSettings
+): Promise<OverdueRule> {
+  return {
+    timeZone: await getPortalTimeZone(client, portalKey),
+    graceDays: settings.overdueGraceDays ?? OVERDUE_GRACE_DAYS,
+  };
+}
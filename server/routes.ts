@@ -6,8 +6,64 @@ import "express-session";
 import {
   markBadDebtRequestSchema,
   markInvoiceBadDebtRequestSchema,
+  unmarkInvoiceBadDebtRequestSchema,
+  bulkMarkInvoiceBadDebtRequestSchema,
+  overdueInvoicesQuerySchema,
+  portalSettingsSchema,
+  hubspotWebhookPayloadSchema,
+  autoWriteOffRunRequestSchema,
+  writeOffRequestsQuerySchema,
+  decideWriteOffRequestSchema,
+  applyPendingWriteOffRequestSchema,
+  companyExportQuerySchema,
+  sendDunningEmailRequestSchema,
+  dunningEmailsQuerySchema,
+  pauseDunningRequestSchema,
+  dunningRunRequestSchema,
+  saveDisputeRequestSchema,
+  isOpenDispute,
+  type CompanyDunning,
+  type InsertAuditEvent,
+  type Invoice,
 } from "@shared/schema";
 import { storage } from "./storage";
+import {
+  applyBadDebtCascade,
+  bulkMarkInvoicesBadDebt,
+  markInvoiceSteps,
+  planUnmarkSteps,
+  recordWriteOffDetails,
+  toAuditEvents,
+  toBadDebtResponse,
+  writeOffReason,
+} from "./bad-debt";
+import { createHubSpotClient, getPortalMetrics } from "./hubspot-client";
+import { batchReadObjects, getDealStageLabels, isAssociated } from "./hubspot";
+import { invoiceProperties, loadCompanyData, toInvoice } from "./company";
+import { buildCompanyExport, exportFileName } from "./export";
+import { renderStatement } from "./statement";
+import { DunningError, sendDunningEmail } from "./dunning";
+import { runCompanyDunning, startDunningScheduler } from "./dunning-schedule";
+import { getOverdueRule, getPortalSettings } from "./portal";
+import { getSetupStatus, provisionBadDebtProperty } from "./setup";
+import { handleWebhookEvents, verifyWebhookSignature } from "./webhooks";
+import {
+  applyWriteOffRequest,
+  assertNotDisputed,
+  decisionError,
+  needsApproval,
+  pendingApprovalResponse,
+  requestWriteOff,
+  WriteOffError,
+} from "./approvals";
+import {
+  getLastRun,
+  runAutoWriteOff,
+  RunInProgressError,
+  startAutoWriteOffScheduler,
+} from "./auto-write-off";
+import { daysPastDue, isOverdue } from "@shared/overdue";
+import { searchOverdueInvoices } from "./overdue";
 
 /**
  * Extend express-session typing so TypeScript knows about portalId in session.
@@ -15,6 +71,7 @@ import { storage } from "./storage";
 declare module "express-session" {
   interface SessionData {
     portalId?: string;
+    hubspotUserId?: string;
   }
 }
 
@@ -26,11 +83,21 @@ const HUBSPOT_REDIRECT_URI =
   "http://localhost:5000/auth/hubspot/callback";
 
 const HUBSPOT_SCOPES =
-  "oauth crm.objects.companies.read crm.objects.companies.write crm.objects.deals.read crm.objects.deals.write crm.objects.invoices.read crm.objects.invoices.write";
+  "oauth crm.objects.companies.read crm.objects.companies.write crm.objects.deals.read crm.objects.deals.write crm.objects.invoices.read crm.objects.invoices.write crm.objects.contacts.read crm.schemas.companies.read crm.schemas.companies.write crm.schemas.deals.read crm.schemas.deals.write crm.schemas.invoices.read crm.schemas.invoices.write";
 
 // Optional: private app token fallback (if you still want it)
 const HS_PRIVATE_APP_TOKEN = process.env.HS_PRIVATE_APP_TOKEN;
 
+// Rate limit / metrics key used for the private app token
+const PRIVATE_APP_PORTAL_KEY = "private-app";
+
+// Public URL HubSpot posts webhooks to, when a proxy rewrites the host or path
+const HUBSPOT_WEBHOOK_URL = process.env.HUBSPOT_WEBHOOK_URL;
+
+// Set to "false" to turn off the auto write-off scheduler (e.g. on all but one instance)
+const AUTO_WRITE_OFF_SCHEDULER = process.env.AUTO_WRITE_OFF_SCHEDULER !== "false";
+const DUNNING_SCHEDULER = process.env.DUNNING_SCHEDULER !== "false";
+
 // OAuth state storage for CSRF protection (in production, consider session/Redis)
 const oauthStates = new Map<string, { createdAt: number }>();
 
@@ -64,6 +131,28 @@ function getPortalId(req: Request): string | undefined {
   return req.session?.portalId || (req.query.portalId as string | undefined);
 }
 
+/**
+ * Key used to scope per-portal data (metrics, audit log); the private app token has no portalId.
+ */
+function getPortalKey(req: Request): string | undefined {
+  return getPortalId(req) || (HS_PRIVATE_APP_TOKEN ? PRIVATE_APP_PORTAL_KEY : undefined);
+}
+
+function getHubSpotUserId(req: Request): string | null {
+  return req.session?.hubspotUserId || null;
+}
+
+/**
+ * Audit log writes must never fail the request that already changed HubSpot.
+ */
+async function recordAudit(events: InsertAuditEvent[]) {
+  try {
+    await storage.addAuditEvents(events);
+  } catch (e) {
+    console.error("Failed to write audit events:", e);
+  }
+}
+
 function notConnected(res: Response) {
   return res.status(401).json({
     success: false,
@@ -107,7 +196,8 @@ async function refreshAccessToken(refreshToken: string, portalId: string) {
 
 // Helper to get HubSpot client for a portal (OAuth first, optional private token fallback)
 async function getHubSpotClient(
-  portalId?: string
+  portalId?: string,
+  privateAppFallback = true
 ): Promise<HubSpotClient | null> {
   if (portalId) {
     const token = await storage.getToken(portalId);
@@ -116,19 +206,27 @@ async function getHubSpotClient(
       if (token.expiresAt <= now + 60) {
         const refreshed = await refreshAccessToken(token.refreshToken, portalId);
         if (!refreshed) return null;
-        return new HubSpotClient({ accessToken: refreshed.accessToken });
+        return createHubSpotClient(refreshed.accessToken, portalId);
       }
-      return new HubSpotClient({ accessToken: token.accessToken });
+      return createHubSpotClient(token.accessToken, portalId);
     }
   }
 
-  if (HS_PRIVATE_APP_TOKEN) {
-    return new HubSpotClient({ accessToken: HS_PRIVATE_APP_TOKEN });
+  if (HS_PRIVATE_APP_TOKEN && privateAppFallback) {
+    return createHubSpotClient(HS_PRIVATE_APP_TOKEN, PRIVATE_APP_PORTAL_KEY);
   }
 
   return null;
 }
 
+// Client for work outside a request (schedulers, webhooks). The private app token
+// only serves its own key, never an OAuth portal that has no token.
+function getPortalClient(portalKey: string): Promise<HubSpotClient | null> {
+  return portalKey === PRIVATE_APP_PORTAL_KEY
+    ? getHubSpotClient()
+    : getHubSpotClient(portalKey, false);
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -219,6 +317,14 @@ export async function registerRoutes(
 
       // ✅ Save portalId into session so your modal/backend calls work without query params
       req.session.portalId = portalId;
+      req.session.hubspotUserId = tokenInfo.userId?.toString();
+
+      // Create the bad debt property where it's missing; the UI polls /api/setup/status.
+      // Not awaited: the install already succeeded whatever happens here.
+      const client = createHubSpotClient(tokenResult.accessToken, portalId);
+      void getPortalSettings(portalId)
+        .then(({ properties }) => provisionBadDebtProperty(client, portalId, properties))
+        .catch((e) => console.error(`Bad debt property setup failed for ${portalId}:`, e));
 
       // Redirect back to your app (no portalId needed in URL)
       res.redirect(`/?connected=true`);
@@ -265,9 +371,58 @@ export async function registerRoutes(
     if (portalId) await storage.deleteToken(portalId);
 
     req.session.portalId = undefined;
+    req.session.hubspotUserId = undefined;
     res.json({ success: true });
   });
 
+  /**
+   * HubSpot webhook subscriptions (invoice/deal property changes)
+   */
+  app.post("/webhooks/hubspot", async (req: Request, res: Response) => {
+    if (!HUBSPOT_CLIENT_SECRET) {
+      return res.status(500).json({
+        success: false,
+        message: "Webhooks not configured. Set HUBSPOT_CLIENT_SECRET.",
+      });
+    }
+
+    const rawBody = Buffer.isBuffer(req.rawBody) ? req.rawBody.toString("utf8") : "";
+    const valid = verifyWebhookSignature({
+      method: req.method,
+      url: HUBSPOT_WEBHOOK_URL || `${req.protocol}://${req.get("host")}${req.originalUrl}`,
+      rawBody,
+      signature: req.get("X-HubSpot-Signature-v3"),
+      timestamp: req.get("X-HubSpot-Request-Timestamp"),
+      clientSecret: HUBSPOT_CLIENT_SECRET,
+    });
+    if (!valid) {
+      return res.status(401).json({ success: false, message: "Invalid signature" });
+    }
+
+    const parseResult = hubspotWebhookPayloadSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: parseResult.error.errors[0]?.message || "Invalid webhook payload",
+      });
+    }
+
+    try {
+      const summary = await handleWebhookEvents(parseResult.data, {
+        getClient: getPortalClient,
+        recordAudit,
+      });
+      // A 5xx makes HubSpot redeliver; failed events were not marked as seen
+      return res.status(summary.failed ? 500 : 200).json(summary);
+    } catch (err: any) {
+      console.error("Webhook error:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to process webhook",
+      });
+    }
+  });
+
   /**
    * Health
    */
@@ -281,45 +436,39 @@ export async function registerRoutes(
   });
 
   /**
-   * ✅ NEW: Deal pipeline stages map (stageId -> label)
-   * UI uses this to display dealstage labels without hardcoding.
+   * HubSpot API call metrics for the current portal (rate limiting, retries)
    */
-  app.get("/api/pipelines/deals/stages", async (req: Request, res: Response) => {
-    try {
-      const portalId = getPortalId(req);
-      const hubspotClient = await getHubSpotClient(portalId);
-      if (!hubspotClient) return notConnected(res);
+  app.get("/api/hubspot/metrics", (req: Request, res: Response) => {
+    const portalKey = getPortalKey(req);
+    if (!portalKey) return notConnected(res);
 
-      const pipelines = await hubspotClient.crm.pipelines.pipelinesApi.getAll(
-        "deals"
-      );
+    return res.json({ portalId: portalKey, ...getPortalMetrics(portalKey) });
+  });
 
-      const map: Record<string, string> = {};
-      for (const p of pipelines.results || []) {
-        for (const s of p.stages || []) {
-          map[String(s.id)] = String(s.label || s.id);
-        }
-      }
+  /**
+   * Portal settings (HubSpot property mapping, overdue grace period)
+   */
+  app.get("/api/settings", async (req: Request, res: Response) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
 
-      return res.json(map);
+      return res.json(await getPortalSettings(portalKey));
     } catch (err: any) {
-      console.error("Error fetching deal stages:", err?.response?.body || err);
+      console.error("Error fetching settings:", err);
       return res.status(500).json({
         success: false,
-        message:
-          err?.response?.body?.message ||
-          err?.message ||
-          "Failed to fetch deal pipeline stages",
+        message: err?.message || "Failed to fetch settings",
       });
     }
   });
 
-  /**
-   * Mark company bad debt
-   */
-  app.post("/api/mark-bad-debt", async (req, res) => {
+  app.put("/api/settings", async (req: Request, res: Response) => {
     try {
-      const parseResult = markBadDebtRequestSchema.safeParse(req.body);
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      const parseResult = portalSettingsSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({
           success: false,
@@ -328,42 +477,77 @@ export async function registerRoutes(
         });
       }
 
-      const { companyId, badDebt } = parseResult.data;
-      const portalId = getPortalId(req);
+      await storage.saveSettings(portalKey, parseResult.data);
+      return res.json(parseResult.data);
+    } catch (err: any) {
+      console.error("Error saving settings:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to save settings",
+      });
+    }
+  });
 
-      const hubspotClient = await getHubSpotClient(portalId);
+  /**
+   * Whether the bad debt property exists on invoices, deals and companies
+   */
+  app.get("/api/setup/status", async (req: Request, res: Response) => {
+    try {
+      const hubspotClient = await getHubSpotClient(getPortalId(req));
       if (!hubspotClient) return notConnected(res);
 
-      const isChecked =
-        badDebt === true ||
-        badDebt === "true" ||
-        badDebt === 1 ||
-        badDebt === "1";
-      const newValue = isChecked ? "true" : "false";
-
-      await hubspotClient.crm.companies.basicApi.update(companyId, {
-        properties: { bad_debt: newValue },
+      const portalKey = getPortalKey(req)!;
+      const { properties } = await getPortalSettings(portalKey);
+      return res.json(
+        await getSetupStatus(hubspotClient, portalKey, properties)
+      );
+    } catch (err: any) {
+      console.error("Error fetching setup status:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to fetch setup status",
       });
+    }
+  });
 
-      return res.status(200).json({ success: true, bad_debt: newValue });
+  /**
+   * Create the bad debt and write-off detail properties wherever they're missing (retry from the UI)
+   */
+  app.post("/api/setup/provision", async (req: Request, res: Response) => {
+    try {
+      const hubspotClient = await getHubSpotClient(getPortalId(req));
+      if (!hubspotClient) return notConnected(res);
+
+      const portalKey = getPortalKey(req)!;
+      const { properties } = await getPortalSettings(portalKey);
+      const status = await provisionBadDebtProperty(
+        hubspotClient,
+        portalKey,
+        properties
+      );
+      return res.status(status.state === "failed" ? 502 : 200).json(status);
     } catch (err: any) {
-      console.error("Backend mark-bad-debt error:", err?.response?.body || err);
+      console.error("Error provisioning properties:", err?.response?.body || err);
       return res.status(500).json({
         success: false,
-        message:
-          err?.response?.body?.message ||
-          err?.message ||
-          "Unexpected backend error.",
+        message: err?.message || "Failed to provision properties",
       });
     }
   });
 
   /**
-   * Mark bad debt on specific invoice (cascades to deal and company)
+   * Scheduled auto write-off: last run report, and a manual run
    */
-  app.post("/api/mark-invoice-bad-debt", async (req, res) => {
+  app.get("/api/auto-write-off/runs/latest", (req: Request, res: Response) => {
+    const portalKey = getPortalKey(req);
+    if (!portalKey) return notConnected(res);
+
+    return res.json(getLastRun(portalKey));
+  });
+
+  app.post("/api/auto-write-off/run", async (req: Request, res: Response) => {
     try {
-      const parseResult = markInvoiceBadDebtRequestSchema.safeParse(req.body);
+      const parseResult = autoWriteOffRunRequestSchema.safeParse(req.body ?? {});
       if (!parseResult.success) {
         return res.status(400).json({
           success: false,
@@ -372,74 +556,133 @@ export async function registerRoutes(
         });
       }
 
-      const { companyId, invoiceId, dealId } = parseResult.data;
-      const portalId = getPortalId(req);
-
-      const hubspotClient = await getHubSpotClient(portalId);
+      const hubspotClient = await getHubSpotClient(getPortalId(req));
       if (!hubspotClient) return notConnected(res);
 
-      const updates: string[] = [];
-      let updatedInvoice = false;
-      let updatedDeal = false;
-      let updatedCompany = false;
-
-      // 1) Invoice
-      try {
-        await hubspotClient.crm.objects.basicApi.update("invoices", invoiceId, {
-          properties: { bad_debt: "true" },
-        });
-        updatedInvoice = true;
-        updates.push("invoice");
-      } catch (e: any) {
-        console.error(
-          "Failed to update invoice bad_debt:",
-          e?.response?.body || e
-        );
+      const portalKey = getPortalKey(req)!;
+      const settings = await getPortalSettings(portalKey);
+      const run = await runAutoWriteOff(hubspotClient, portalKey, settings, {
+        trigger: "manual",
+        dryRun: parseResult.data.dryRun,
+        recordAudit,
+      });
+      return res.status(run.error ? 502 : 200).json(run);
+    } catch (err: any) {
+      if (err instanceof RunInProgressError) {
+        return res.status(409).json({ success: false, message: err.message });
       }
+      console.error("Auto write-off run error:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to run auto write-off",
+      });
+    }
+  });
 
-      // 2) Deal
-      if (dealId) {
-        try {
-          await hubspotClient.crm.deals.basicApi.update(dealId, {
-            properties: { bad_debt: "true" },
-          });
-          updatedDeal = true;
-          updates.push("deal");
-        } catch (e: any) {
-          console.error("Failed to update deal bad_debt:", e?.response?.body || e);
-        }
+  /**
+   * Invoices queued by the auto write-off scan, waiting for review
+   */
+  app.get("/api/write-offs/pending", async (req: Request, res: Response) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      return res.json(await storage.getPendingWriteOffs(portalKey));
+    } catch (err: any) {
+      console.error("Error fetching pending write-offs:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to fetch pending write-offs",
+      });
+    }
+  });
+
+  /**
+   * Write off a queued invoice (same cascade as the bulk route) and take it off the list
+   */
+  app.post("/api/write-offs/pending/:id/apply", async (req: Request, res: Response) => {
+    try {
+      const hubspotClient = await getHubSpotClient(getPortalId(req));
+      if (!hubspotClient) return notConnected(res);
+
+      const portalKey = getPortalKey(req)!;
+      const pending = await storage.getPendingWriteOff(portalKey, Number(req.params.id));
+      if (!pending) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Pending write-off not found" });
       }
 
-      // 3) Company
-      try {
-        await hubspotClient.crm.companies.basicApi.update(companyId, {
-          properties: { bad_debt: "true" },
+      const parseResult = applyPendingWriteOffRequestSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid request body",
+        });
+      }
+      const details = parseResult.data;
+      await assertNotDisputed(portalKey, pending.invoiceId);
+
+      const settings = await getPortalSettings(portalKey);
+      // the invoice may have been paid or written off since it was queued
+      const obj = (
+        await batchReadObjects(
+          hubspotClient,
+          "invoices",
+          [pending.invoiceId],
+          invoiceProperties(settings.properties)
+        )
+      ).get(pending.invoiceId);
+      const current = obj ? toInvoice(obj, settings.properties) : null;
+      if (!current || current.hs_invoice_status !== "open" || current.bad_debt === "true") {
+        await storage.deletePendingWriteOff(portalKey, pending.id);
+        return res.status(409).json({
+          success: false,
+          message: current
+            ? "Invoice is no longer open and was removed from the review list"
+            : "Invoice no longer exists and was removed from the review list",
         });
-        updatedCompany = true;
-        updates.push("company");
-      } catch (e: any) {
-        console.error(
-          "Failed to update company bad_debt:",
-          e?.response?.body || e
+      }
+      const invoice: Invoice = { ...current, dealId: pending.dealId };
+      const reason = `${writeOffReason(details)} (from review list, ${pending.daysPastDue} days overdue)`;
+
+      if (needsApproval(invoice.amount, settings)) {
+        const request = await requestWriteOff(
+          portalKey,
+          pending.companyId,
+          invoice,
+          getHubSpotUserId(req),
+          details,
+          reason
         );
+        await storage.deletePendingWriteOff(portalKey, pending.id);
+        return res.status(202).json(pendingApprovalResponse(request));
       }
 
-      return res.status(200).json({
-        success: true,
-        bad_debt: "true",
-        updatedInvoice,
-        updatedDeal,
-        updatedCompany,
-        message:
-          updates.length > 0
-            ? `Marked bad debt on: ${updates.join(", ")}`
-            : "No records were updated",
-      });
-    } catch (err: any) {
-      console.error(
-        "Backend mark-invoice-bad-debt error:",
-        err?.response?.body || err
+      const { response, audit } = await bulkMarkInvoicesBadDebt(
+        hubspotClient,
+        [invoice],
+        {
+          portalId: portalKey,
+          hubspotUserId: getHubSpotUserId(req),
+          companyId: pending.companyId,
+          reason,
+        },
+        details,
+        settings.properties
       );
+      await recordAudit(audit);
+
+      if (response.results[0]?.success) {
+        await storage.deletePendingWriteOff(portalKey, pending.id);
+      }
+      return res.status(response.success ? 200 : 502).json(response);
+    } catch (err: any) {
+      if (err instanceof WriteOffError) {
+        return res.status(err.status).json({ success: false, message: err.message });
+      }
+      console.error("Pending write-off apply error:", err?.response?.body || err);
       return res.status(500).json({
         success: false,
         message:
@@ -450,140 +693,1035 @@ export async function registerRoutes(
     }
   });
 
+  app.delete("/api/write-offs/pending/:id", async (req: Request, res: Response) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      await storage.deletePendingWriteOff(portalKey, Number(req.params.id));
+      return res.json({ success: true });
+    } catch (err: any) {
+      console.error("Error dismissing pending write-off:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to dismiss pending write-off",
+      });
+    }
+  });
+
   /**
-   * Get company + associated deals/invoices summary (real data only)
+   * Write-off requests (invoices above the approval threshold)
    */
-  app.get("/api/company/:companyId", async (req, res) => {
+  app.get("/api/write-off-requests", async (req: Request, res: Response) => {
     try {
-      const { companyId } = req.params;
-      const portalId = getPortalId(req);
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
 
-      const hubspotClient = await getHubSpotClient(portalId);
-      if (!hubspotClient) return notConnected(res);
+      const parseResult = writeOffRequestsQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: parseResult.error.errors[0]?.message || "Invalid query",
+        });
+      }
+
+      return res.json(
+        await storage.getWriteOffRequests(portalKey, parseResult.data.status)
+      );
+    } catch (err: any) {
+      console.error("Error fetching write-off requests:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to fetch write-off requests",
+      });
+    }
+  });
 
-      const companyResponse =
-        await hubspotClient.crm.companies.basicApi.getById(companyId, [
-          "name",
-          "bad_debt",
-        ]);
-
-      const dealsResponse = await (
-        hubspotClient.crm.associations.v4.basicApi as any
-      ).getPage("companies", companyId, "deals");
-
-      const invoicesResponse = await (
-        hubspotClient.crm.associations.v4.basicApi as any
-      ).getPage("companies", companyId, "invoices");
-
-      const deals: any[] = [];
-      for (const assoc of dealsResponse.results || []) {
-        try {
-          const deal = await hubspotClient.crm.deals.basicApi.getById(assoc.id, [
-            "dealname",
-            "amount",
-            "dealstage",
-            "closedate",
-            "bad_debt",
-          ]);
-          deals.push({
-            id: deal.id,
-            dealname: deal.properties.dealname || "",
-            amount: deal.properties.amount || null,
-            dealstage: deal.properties.dealstage || "",
-            closedate: deal.properties.closedate || null,
-            bad_debt: deal.properties.bad_debt || null,
+  /**
+   * Approve or reject a requested write-off; approving runs the cascade right away
+   */
+  app.post(
+    "/api/write-off-requests/:id/:decision(approve|reject)",
+    async (req: Request, res: Response) => {
+      try {
+        const parseResult = decideWriteOffRequestSchema.safeParse(req.body ?? {});
+        if (!parseResult.success) {
+          return res.status(400).json({
+            success: false,
+            message:
+              parseResult.error.errors[0]?.message || "Invalid request body",
           });
-        } catch (e) {
-          console.error(`Failed to fetch deal ${assoc.id}:`, e);
         }
-      }
 
-      const dealMap = new Map<string, string>();
-      for (const deal of deals) dealMap.set(deal.id, deal.dealname);
+        const hubspotClient = await getHubSpotClient(getPortalId(req));
+        if (!hubspotClient) return notConnected(res);
 
-      const invoices: any[] = [];
-      let overdueCount = 0;
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+        const portalKey = getPortalKey(req)!;
+        const request = await storage.getWriteOffRequest(portalKey, Number(req.params.id));
+        if (!request) {
+          return res
+            .status(404)
+            .json({ success: false, message: "Write-off request not found" });
+        }
+        if (request.status !== "requested") {
+          return res.status(409).json({
+            success: false,
+            message: `Write-off request is already ${request.status}`,
+          });
+        }
 
-      for (const assoc of invoicesResponse.results || []) {
-        try {
-          const invoice = await hubspotClient.crm.objects.basicApi.getById(
-            "invoices",
-            assoc.id,
-            ["hs_invoice_number", "hs_invoice_status", "hs_due_date", "amount", "bad_debt"]
-          );
+        const settings = await getPortalSettings(portalKey);
+        const userId = getHubSpotUserId(req);
+        const forbidden = decisionError(request, userId, settings);
+        if (forbidden) {
+          return res.status(403).json({ success: false, message: forbidden });
+        }
 
-          const status = invoice.properties.hs_invoice_status || "";
-          const dueDate = invoice.properties.hs_due_date || null;
-          if (status.toLowerCase() === "open" && dueDate) {
-            if (new Date(dueDate) < today) overdueCount++;
-          }
-
-          let dealId: string | null = null;
-          let dealName: string | null = null;
-
-          try {
-            const invoiceDealAssoc = await (
-              hubspotClient.crm.associations.v4.basicApi as any
-            ).getPage("invoices", assoc.id, "deals");
-
-            if (invoiceDealAssoc.results?.length) {
-              dealId = invoiceDealAssoc.results[0].id;
-              dealName = dealId ? dealMap.get(dealId) || null : null;
-
-              if (!dealName && dealId) {
-                try {
-                  const dealInfo = await hubspotClient.crm.deals.basicApi.getById(
-                    dealId,
-                    ["dealname"]
-                  );
-                  dealName = dealInfo.properties.dealname || null;
-                } catch (e) {
-                  console.error(`Failed to fetch deal name for ${dealId}:`, e);
-                }
-              }
-            }
-          } catch {
-            // invoice may have no deal association
-          }
-
-          invoices.push({
-            id: invoice.id,
-            hs_invoice_number: invoice.properties.hs_invoice_number || "",
-            hs_invoice_status: status,
-            hs_due_date: dueDate,
-            amount: invoice.properties.amount || null,
-            dealId,
-            dealName,
-            bad_debt: invoice.properties.bad_debt || null,
+        const approved = req.params.decision === "approve";
+        if (approved) await assertNotDisputed(portalKey, request.invoiceId);
+        const decided = await storage.updateWriteOffRequest(
+          portalKey,
+          request.id,
+          {
+            status: approved ? "approved" : "rejected",
+            decidedBy: userId,
+            decidedAt: new Date(),
+            decisionNote: parseResult.data.note || null,
+          },
+          "requested"
+        );
+        // someone else decided it since we read it
+        if (!decided) {
+          return res.status(409).json({
+            success: false,
+            message: "Write-off request has already been decided",
           });
-        } catch (e) {
-          console.error(`Failed to fetch invoice ${assoc.id}:`, e);
         }
+        if (!approved) return res.json({ success: true, request: decided });
+
+        const result = await applyWriteOffRequest(
+          hubspotClient,
+          decided,
+          settings,
+          recordAudit
+        );
+        return res
+          .status(result.response.success ? 200 : 502)
+          .json({ ...result.response, request: result.request });
+      } catch (err: any) {
+        if (err instanceof WriteOffError) {
+          return res.status(err.status).json({ success: false, message: err.message });
+        }
+        console.error("Write-off request decision error:", err?.response?.body || err);
+        return res.status(500).json({
+          success: false,
+          message:
+            err?.response?.body?.message ||
+            err?.message ||
+            "Unexpected backend error.",
+        });
       }
+    }
+  );
 
-      return res.status(200).json({
-        company: {
-          id: companyResponse.id,
-          name: companyResponse.properties.name || "",
-          bad_debt: companyResponse.properties.bad_debt || "false",
-        },
-        deals,
-        invoices,
-        overdueCount,
+  /**
+   * Retry an approved write-off request whose cascade failed
+   */
+  app.post("/api/write-off-requests/:id/apply", async (req: Request, res: Response) => {
+    try {
+      const hubspotClient = await getHubSpotClient(getPortalId(req));
+      if (!hubspotClient) return notConnected(res);
+
+      const portalKey = getPortalKey(req)!;
+      const request = await storage.getWriteOffRequest(portalKey, Number(req.params.id));
+      if (!request) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Write-off request not found" });
+      }
+      if (request.status !== "approved") {
+        return res.status(409).json({
+          success: false,
+          message: `Only approved requests can be applied (this one is ${request.status})`,
+        });
+      }
+
+      const settings = await getPortalSettings(portalKey);
+      const forbidden = decisionError(request, getHubSpotUserId(req), settings);
+      if (forbidden) {
+        return res.status(403).json({ success: false, message: forbidden });
+      }
+
+      const result = await applyWriteOffRequest(hubspotClient, request, settings, recordAudit);
+      return res
+        .status(result.response.success ? 200 : 502)
+        .json({ ...result.response, request: result.request });
+    } catch (err: any) {
+      if (err instanceof WriteOffError) {
+        return res.status(err.status).json({ success: false, message: err.message });
+      }
+      console.error("Write-off request apply error:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Unexpected backend error.",
       });
+    }
+  });
+
+  /**
+   * ✅ NEW: Deal pipeline stages map (stageId -> label)
+   * UI uses this to display dealstage labels without hardcoding.
+   */
+  app.get("/api/pipelines/deals/stages", async (req: Request, res: Response) => {
+    try {
+      const portalId = getPortalId(req);
+      const hubspotClient = await getHubSpotClient(portalId);
+      if (!hubspotClient) return notConnected(res);
+
+      return res.json(await getDealStageLabels(hubspotClient));
     } catch (err: any) {
-      console.error("Error fetching company data:", err?.response?.body || err);
+      console.error("Error fetching deal stages:", err?.response?.body || err);
       return res.status(500).json({
         success: false,
         message:
           err?.response?.body?.message ||
           err?.message ||
-          "Failed to fetch company data",
+          "Failed to fetch deal pipeline stages",
       });
     }
   });
 
+  /**
+   * Mark company bad debt
+   */
+  app.post("/api/mark-bad-debt", async (req, res) => {
+    try {
+      const parseResult = markBadDebtRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid request body",
+        });
+      }
+
+      const { companyId, badDebt } = parseResult.data;
+      const portalId = getPortalId(req);
+
+      const hubspotClient = await getHubSpotClient(portalId);
+      if (!hubspotClient) return notConnected(res);
+
+      const isChecked =
+        badDebt === true ||
+        badDebt === "true" ||
+        badDebt === 1 ||
+        badDebt === "1";
+      const newValue = isChecked ? "true" : "false";
+
+      const { properties } = await getPortalSettings(getPortalKey(req)!);
+      const company = await hubspotClient.crm.companies.basicApi.getById(
+        companyId,
+        [properties.badDebt]
+      );
+      await hubspotClient.crm.companies.basicApi.update(companyId, {
+        properties: { [properties.badDebt]: newValue },
+      });
+
+      await recordAudit([
+        {
+          portalId: getPortalKey(req)!,
+          hubspotUserId: getHubSpotUserId(req),
+          companyId,
+          objectType: "company",
+          objectId: companyId,
+          oldValue: company.properties[properties.badDebt] ?? null,
+          newValue,
+          reason: null,
+        },
+      ]);
+
+      return res.status(200).json({ success: true, bad_debt: newValue });
+    } catch (err: any) {
+      console.error("Backend mark-bad-debt error:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Unexpected backend error.",
+      });
+    }
+  });
+
+  /**
+   * Mark bad debt on specific invoice (cascades to deal and company)
+   */
+  app.post("/api/mark-invoice-bad-debt", async (req, res) => {
+    try {
+      const parseResult = markInvoiceBadDebtRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid request body",
+        });
+      }
+
+      const { companyId, invoiceId, dealId, ...details } = parseResult.data;
+      const portalId = getPortalId(req);
+
+      const hubspotClient = await getHubSpotClient(portalId);
+      if (!hubspotClient) return notConnected(res);
+
+      await assertNotDisputed(getPortalKey(req)!, invoiceId);
+      const settings = await getPortalSettings(getPortalKey(req)!);
+      const { properties } = settings;
+
+      // Above the approval threshold only a request is created
+      if (settings.approval.threshold !== undefined) {
+        const invoice = (
+          await batchReadObjects(
+            hubspotClient,
+            "invoices",
+            [invoiceId],
+            invoiceProperties(properties)
+          )
+        ).get(invoiceId);
+        if (!invoice) {
+          return res
+            .status(404)
+            .json({ success: false, message: "Invoice not found" });
+        }
+        const { amount, currency, hs_invoice_number } = toInvoice(invoice, properties);
+        if (needsApproval(amount, settings)) {
+          const request = await requestWriteOff(
+            getPortalKey(req)!,
+            companyId,
+            { id: invoiceId, hs_invoice_number, amount, currency, dealId },
+            getHubSpotUserId(req),
+            details
+          );
+          return res.status(202).json(pendingApprovalResponse(request));
+        }
+      }
+
+      const steps = markInvoiceSteps({ companyId, invoiceId, dealId });
+      const result = await applyBadDebtCascade(hubspotClient, steps, properties.badDebt);
+      await recordAudit(
+        toAuditEvents(result, steps, {
+          portalId: getPortalKey(req)!,
+          hubspotUserId: getHubSpotUserId(req),
+          companyId,
+          reason: writeOffReason(details),
+        })
+      );
+
+      const response = toBadDebtResponse(result, "true", "Marked bad debt");
+      if (result.success) {
+        const warnings = await recordWriteOffDetails(
+          hubspotClient,
+          { companyId, invoiceId, dealId },
+          details,
+          properties
+        );
+        if (warnings.length) response.warnings = warnings;
+      }
+
+      return res.status(result.success ? 200 : 502).json(response);
+    } catch (err: any) {
+      if (err instanceof WriteOffError) {
+        return res.status(err.status).json({ success: false, message: err.message });
+      }
+      console.error(
+        "Backend mark-invoice-bad-debt error:",
+        err?.response?.body || err
+      );
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Unexpected backend error.",
+      });
+    }
+  });
+
+  /**
+   * Bulk write-off: mark many invoices of a company as bad debt, either by id
+   * or every overdue open invoice older than N days. Returns a per-invoice report.
+   */
+  app.post("/api/bulk-mark-invoice-bad-debt", async (req, res) => {
+    try {
+      const parseResult = bulkMarkInvoiceBadDebtRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid request body",
+        });
+      }
+
+      const { companyId, invoiceIds, overdueOlderThanDays, ...details } = parseResult.data;
+      const portalId = getPortalId(req);
+
+      const hubspotClient = await getHubSpotClient(portalId);
+      if (!hubspotClient) return notConnected(res);
+
+      const settings = await getPortalSettings(getPortalKey(req)!);
+      const rule = await getOverdueRule(hubspotClient, getPortalKey(req)!, settings);
+      const { invoices } = await loadCompanyData(
+        hubspotClient,
+        getPortalKey(req)!,
+        companyId,
+        rule,
+        settings.properties
+      );
+      const byId = new Map(invoices.map((i) => [i.id, i]));
+
+      const selected = invoiceIds
+        ? invoiceIds.map((id) => byId.get(id)).filter((i) => !!i)
+        : invoices.filter(
+            (i) =>
+              i.bad_debt !== "true" &&
+              isOverdue(i, rule) &&
+              daysPastDue(i.hs_due_date!, rule) > overdueOlderThanDays!
+          );
+
+      // isOverdue already leaves them out of "older than N days"
+      const disputed = selected.filter((i) => isOpenDispute(i.dispute));
+      const targets = selected.filter((i) => !disputed.includes(i));
+      const unknownIds = (invoiceIds || []).filter((id) => !byId.has(id));
+      const gated = targets.filter((i) => needsApproval(i.amount, settings));
+
+      const { response, audit } = await bulkMarkInvoicesBadDebt(
+        hubspotClient,
+        targets.filter((i) => !gated.includes(i)),
+        {
+          portalId: getPortalKey(req)!,
+          hubspotUserId: getHubSpotUserId(req),
+          companyId,
+          reason: writeOffReason(details),
+        },
+        details,
+        settings.properties
+      );
+      await recordAudit(audit);
+
+      for (const invoice of gated) {
+        const request = await requestWriteOff(
+          getPortalKey(req)!,
+          companyId,
+          invoice,
+          getHubSpotUserId(req),
+          details
+        );
+        response.results.push({
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.hs_invoice_number || undefined,
+          success: true,
+          message: pendingApprovalResponse(request).message!,
+          pendingApproval: true,
+          requestId: request.id,
+        });
+      }
+      if (gated.length) response.message += `; ${gated.length} sent for approval`;
+
+      for (const invoice of disputed) {
+        response.success = false;
+        response.results.push({
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.hs_invoice_number || undefined,
+          success: false,
+          message: "Invoice is under dispute",
+        });
+      }
+
+      for (const id of unknownIds) {
+        response.success = false;
+        response.results.push({
+          invoiceId: id,
+          success: false,
+          message: "Invoice is not associated with this company",
+        });
+      }
+
+      const succeeded = response.results.filter((r) => r.success).length;
+      const status =
+        response.success ? 200 : succeeded > 0 ? 207 : targets.length ? 502 : 400;
+
+      return res.status(status).json(response);
+    } catch (err: any) {
+      console.error(
+        "Backend bulk-mark-invoice-bad-debt error:",
+        err?.response?.body || err
+      );
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Unexpected backend error.",
+      });
+    }
+  });
+
+  /**
+   * Reverse a bad-debt write-off on an invoice.
+   * Deal and company flags are only cleared when no other invoice keeps them bad debt.
+   */
+  app.post("/api/unmark-invoice-bad-debt", async (req, res) => {
+    try {
+      const parseResult = unmarkInvoiceBadDebtRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid request body",
+        });
+      }
+
+      const { companyId, invoiceId, dealId, reason } = parseResult.data;
+      const portalId = getPortalId(req);
+
+      const hubspotClient = await getHubSpotClient(portalId);
+      if (!hubspotClient) return notConnected(res);
+
+      const { properties } = await getPortalSettings(getPortalKey(req)!);
+
+      const steps = await planUnmarkSteps(
+        hubspotClient,
+        { companyId, invoiceId, dealId },
+        properties.badDebt
+      );
+
+      const result = await applyBadDebtCascade(hubspotClient, steps, properties.badDebt);
+      await recordAudit(
+        toAuditEvents(result, steps, {
+          portalId: getPortalKey(req)!,
+          hubspotUserId: getHubSpotUserId(req),
+          companyId,
+          reason,
+        })
+      );
+
+      return res
+        .status(result.success ? 200 : 502)
+        .json(toBadDebtResponse(result, "false", "Cleared bad debt"));
+    } catch (err: any) {
+      console.error(
+        "Backend unmark-invoice-bad-debt error:",
+        err?.response?.body || err
+      );
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Unexpected backend error.",
+      });
+    }
+  });
+
+  /**
+   * Audit log of bad-debt changes for a company, newest first
+   */
+  app.get("/api/company/:companyId/audit", async (req, res) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      const events = await storage.getAuditEvents(portalKey, req.params.companyId);
+      return res.status(200).json(events);
+    } catch (err: any) {
+      console.error("Error fetching audit events:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to fetch audit events",
+      });
+    }
+  });
+
+  /**
+   * Portal-wide open invoices past due (paged, sortable by days overdue or amount)
+   */
+  app.get("/api/invoices/overdue", async (req, res) => {
+    try {
+      const parseResult = overdueInvoicesQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid query parameters",
+        });
+      }
+
+      const portalId = getPortalId(req);
+      const hubspotClient = await getHubSpotClient(portalId);
+      if (!hubspotClient) return notConnected(res);
+
+      const settings = await getPortalSettings(getPortalKey(req)!);
+      const rule = await getOverdueRule(hubspotClient, getPortalKey(req)!, settings);
+      const disputes = await storage.getOpenDisputes(getPortalKey(req)!);
+      const data = await searchOverdueInvoices(
+        hubspotClient,
+        parseResult.data,
+        rule,
+        settings.properties,
+        disputes.map((d) => d.invoiceId)
+      );
+      return res.status(200).json(data);
+    } catch (err: any) {
+      console.error("Error searching overdue invoices:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Failed to search overdue invoices",
+      });
+    }
+  });
+
+  /**
+   * Get company + associated deals/invoices summary (real data only)
+   */
+  app.get("/api/company/:companyId", async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      const portalId = getPortalId(req);
+
+      const hubspotClient = await getHubSpotClient(portalId);
+      if (!hubspotClient) return notConnected(res);
+
+      const settings = await getPortalSettings(getPortalKey(req)!);
+      const rule = await getOverdueRule(hubspotClient, getPortalKey(req)!, settings);
+      const data = await loadCompanyData(
+        hubspotClient,
+        getPortalKey(req)!,
+        companyId,
+        rule,
+        settings.properties
+      );
+      return res.status(200).json(data);
+    } catch (err: any) {
+      console.error("Error fetching company data:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Failed to fetch company data",
+      });
+    }
+  });
+
+  /**
+   * Send a payment reminder for an overdue invoice
+   */
+  app.post("/api/dunning/send", async (req: Request, res: Response) => {
+    try {
+      const parseResult = sendDunningEmailRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid request body",
+        });
+      }
+
+      const hubspotClient = await getHubSpotClient(getPortalId(req));
+      if (!hubspotClient) return notConnected(res);
+
+      const portalKey = getPortalKey(req)!;
+      const settings = await getPortalSettings(portalKey);
+      const rule = await getOverdueRule(hubspotClient, portalKey, settings);
+      const response = await sendDunningEmail(
+        hubspotClient,
+        portalKey,
+        parseResult.data,
+        settings,
+        rule,
+        getHubSpotUserId(req)
+      );
+      await storage.addDunningEvent({
+        portalId: portalKey,
+        companyId: parseResult.data.companyId,
+        invoiceId: parseResult.data.invoiceId,
+        stageDay: null,
+        action: "email",
+        status: response.success ? "done" : "failed",
+        message: response.message,
+        userId: getHubSpotUserId(req),
+      });
+      return res.status(response.success ? 200 : 502).json(response);
+    } catch (err: any) {
+      if (err instanceof DunningError) {
+        return res.status(err.status).json({ success: false, message: err.message });
+      }
+      console.error("Error sending reminder:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Failed to send reminder",
+      });
+    }
+  });
+
+  /**
+   * Reminder send log for a company, optionally for one invoice
+   */
+  app.get("/api/company/:companyId/dunning-emails", async (req: Request, res: Response) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      const parseResult = dunningEmailsQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid query parameters",
+        });
+      }
+
+      return res.json(
+        await storage.getDunningEmails(
+          portalKey,
+          req.params.companyId,
+          parseResult.data.invoiceId
+        )
+      );
+    } catch (err: any) {
+      console.error("Error fetching reminder log:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to fetch reminder log",
+      });
+    }
+  });
+
+  /**
+   * Dunning state for a company: pause, current stage per invoice and timeline
+   */
+  app.get("/api/company/:companyId/dunning", async (req: Request, res: Response) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      const { companyId } = req.params;
+      const [pause, states, events] = await Promise.all([
+        storage.getDunningPause(portalKey, companyId),
+        storage.getDunningStates(portalKey, companyId),
+        storage.getDunningEvents(portalKey, companyId),
+      ]);
+      const response: CompanyDunning = { pause, states, events };
+      return res.json(response);
+    } catch (err: any) {
+      console.error("Error fetching dunning state:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to fetch dunning state",
+      });
+    }
+  });
+
+  /**
+   * Pause dunning for a company, e.g. while it disputes an invoice
+   */
+  app.put("/api/company/:companyId/dunning/pause", async (req: Request, res: Response) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      const parseResult = pauseDunningRequestSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid request body",
+        });
+      }
+
+      const pause = await storage.saveDunningPause({
+        portalId: portalKey,
+        companyId: req.params.companyId,
+        reason: parseResult.data.reason || null,
+        pausedBy: getHubSpotUserId(req),
+      });
+      return res.json(pause);
+    } catch (err: any) {
+      console.error("Error pausing dunning:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to pause dunning",
+      });
+    }
+  });
+
+  /**
+   * Resume dunning for a company
+   */
+  app.delete("/api/company/:companyId/dunning/pause", async (req: Request, res: Response) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      await storage.deleteDunningPause(portalKey, req.params.companyId);
+      return res.json({ success: true, message: "Dunning resumed" });
+    } catch (err: any) {
+      console.error("Error resuming dunning:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to resume dunning",
+      });
+    }
+  });
+
+  /**
+   * Run the dunning stages for a company's invoices now
+   */
+  app.post("/api/company/:companyId/dunning/run", async (req: Request, res: Response) => {
+    try {
+      const parseResult = dunningRunRequestSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid request body",
+        });
+      }
+
+      const hubspotClient = await getHubSpotClient(getPortalId(req));
+      if (!hubspotClient) return notConnected(res);
+
+      const portalKey = getPortalKey(req)!;
+      const settings = await getPortalSettings(portalKey);
+      const run = await runCompanyDunning(
+        hubspotClient,
+        portalKey,
+        req.params.companyId,
+        settings,
+        { trigger: "manual", dryRun: parseResult.data.dryRun, recordAudit }
+      );
+      return res.status(run.error ? 502 : 200).json(run);
+    } catch (err: any) {
+      if (err instanceof DunningError) {
+        return res.status(err.status).json({ success: false, message: err.message });
+      }
+      console.error("Error running dunning:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Failed to run dunning",
+      });
+    }
+  });
+
+  /**
+   * Open disputes across the portal
+   */
+  app.get("/api/disputes", async (req: Request, res: Response) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      return res.json(await storage.getOpenDisputes(portalKey));
+    } catch (err: any) {
+      console.error("Error fetching disputes:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to fetch disputes",
+      });
+    }
+  });
+
+  /**
+   * Disputes (open and resolved) on a company's invoices
+   */
+  app.get("/api/company/:companyId/disputes", async (req: Request, res: Response) => {
+    try {
+      const portalKey = getPortalKey(req);
+      if (!portalKey) return notConnected(res);
+
+      return res.json(await storage.getInvoiceDisputes(portalKey, req.params.companyId));
+    } catch (err: any) {
+      console.error("Error fetching disputes:", err);
+      return res.status(500).json({
+        success: false,
+        message: err?.message || "Failed to fetch disputes",
+      });
+    }
+  });
+
+  /**
+   * Open, update or resolve the dispute on an invoice
+   */
+  app.put(
+    "/api/company/:companyId/invoices/:invoiceId/dispute",
+    async (req: Request, res: Response) => {
+      try {
+        const parseResult = saveDisputeRequestSchema.safeParse(req.body);
+        if (!parseResult.success) {
+          return res.status(400).json({
+            success: false,
+            message:
+              parseResult.error.errors[0]?.message || "Invalid request body",
+          });
+        }
+
+        const hubspotClient = await getHubSpotClient(getPortalId(req));
+        if (!hubspotClient) return notConnected(res);
+
+        const portalKey = getPortalKey(req)!;
+        const { companyId, invoiceId } = req.params;
+        if (!(await isAssociated(hubspotClient, "invoices", invoiceId, "companies", companyId))) {
+          return res.status(404).json({
+            success: false,
+            message: "Invoice is not associated with this company",
+          });
+        }
+        const settings = await getPortalSettings(portalKey);
+        const objects = await batchReadObjects(
+          hubspotClient,
+          "invoices",
+          [invoiceId],
+          invoiceProperties(settings.properties)
+        );
+        const obj = objects.get(invoiceId);
+        if (!obj) {
+          return res.status(404).json({ success: false, message: "Invoice not found" });
+        }
+        const invoice = toInvoice(obj, settings.properties);
+
+        const dispute = await storage.saveInvoiceDispute({
+          portalId: portalKey,
+          companyId,
+          invoiceId,
+          invoiceNumber: invoice.hs_invoice_number || null,
+          amount: invoice.amount,
+          currency: invoice.currency,
+          status: parseResult.data.status,
+          note: parseResult.data.note || null,
+          openedBy: getHubSpotUserId(req),
+          updatedBy: getHubSpotUserId(req),
+        });
+        return res.json(dispute);
+      } catch (err: any) {
+        console.error("Error saving dispute:", err?.response?.body || err);
+        return res.status(500).json({
+          success: false,
+          message:
+            err?.response?.body?.message ||
+            err?.message ||
+            "Failed to save dispute",
+        });
+      }
+    }
+  );
+
+  /**
+   * Download a company's invoices and deals (CSV: one sheet, XLSX: both)
+   */
+  app.get("/api/company/:companyId/export", async (req, res) => {
+    try {
+      const parseResult = companyExportQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          success: false,
+          message:
+            parseResult.error.errors[0]?.message || "Invalid query parameters",
+        });
+      }
+
+      const { companyId } = req.params;
+      const hubspotClient = await getHubSpotClient(getPortalId(req));
+      if (!hubspotClient) return notConnected(res);
+
+      const settings = await getPortalSettings(getPortalKey(req)!);
+      const rule = await getOverdueRule(hubspotClient, getPortalKey(req)!, settings);
+      const [data, stageLabels] = await Promise.all([
+        loadCompanyData(
+          hubspotClient,
+          getPortalKey(req)!,
+          companyId,
+          rule,
+          settings.properties
+        ),
+        getDealStageLabels(hubspotClient),
+      ]);
+
+      const file = await buildCompanyExport(data, rule, stageLabels, parseResult.data);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      return res.status(200).send(file.body);
+    } catch (err: any) {
+      console.error("Error exporting company data:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Failed to export company data",
+      });
+    }
+  });
+
+  /**
+   * Download a PDF statement of account for the company
+   */
+  app.get("/api/company/:companyId/statement", async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      const hubspotClient = await getHubSpotClient(getPortalId(req));
+      if (!hubspotClient) return notConnected(res);
+
+      const settings = await getPortalSettings(getPortalKey(req)!);
+      const rule = await getOverdueRule(hubspotClient, getPortalKey(req)!, settings);
+      const data = await loadCompanyData(
+        hubspotClient,
+        getPortalKey(req)!,
+        companyId,
+        rule,
+        settings.properties
+      );
+
+      const pdf = await renderStatement(data, rule, settings.statement);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${exportFileName(data)}-statement.pdf"`
+      );
+      return res.status(200).send(pdf);
+    } catch (err: any) {
+      console.error("Error generating statement:", err?.response?.body || err);
+      return res.status(500).json({
+        success: false,
+        message:
+          err?.response?.body?.message ||
+          err?.message ||
+          "Failed to generate statement",
+      });
+    }
+  });
+
+  const schedulerDeps = {
+    listPortals: async () => {
+      const portals = (await storage.listTokens()).map((t) => t.portalId);
+      if (HS_PRIVATE_APP_TOKEN) portals.push(PRIVATE_APP_PORTAL_KEY);
+      return portals;
+    },
+    getClient: getPortalClient,
+    recordAudit,
+  };
+  if (AUTO_WRITE_OFF_SCHEDULER) startAutoWriteOffScheduler(schedulerDeps);
+  if (DUNNING_SCHEDULER) startDunningScheduler(schedulerDeps);
+
   return httpServer;
 }
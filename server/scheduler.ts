@@ -0,0 +1,68 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import type { InsertAuditEvent, PortalSettings } from "@shared/schema";
+import { cronMatches, parseCron } from "@shared/cron";
+import { getPortalSettings } from "./portal";
+
+const TICK_MS = 60 * 1000;
+
+export interface SchedulerDeps {
+  listPortals: () => Promise<string[]>;
+  getClient: (portalKey: string) => Promise<HubSpotClient | null>;
+  recordAudit: (events: InsertAuditEvent[]) => Promise<void>;
+}
+
+export interface ScheduledJob {
+  // used in log messages
+  name: string;
+  // the portal's cron schedule, or null when the job is off for it
+  schedule: (settings: PortalSettings) => string | null;
+  isRunning: (portalKey: string) => boolean;
+  run: (client: HubSpotClient, portalKey: string, settings: PortalSettings) => Promise<unknown>;
+}
+
+/**
+ * Checks every minute which portals' schedules for `job` are due and runs them
+ * one after another. A failing portal (or portal listing) is logged and the
+ * next tick carries on. Returns a function that stops the scheduler.
+ */
+export function startPortalScheduler(
+  deps: Pick<SchedulerDeps, "listPortals" | "getClient">,
+  job: ScheduledJob
+): () => void {
+  let lastMinute = -1;
+
+  const runPortal = async (portalKey: string, now: Date) => {
+    const settings = await getPortalSettings(portalKey);
+    const schedule = job.schedule(settings);
+    if (!schedule || !cronMatches(parseCron(schedule), now)) return;
+    if (job.isRunning(portalKey)) return;
+
+    const client = await deps.getClient(portalKey);
+    if (!client) {
+      console.warn(`${job.name} skipped for ${portalKey}: not connected`);
+      return;
+    }
+    await job.run(client, portalKey, settings);
+  };
+
+  const tick = async () => {
+    const now = new Date();
+    const minute = Math.floor(now.getTime() / TICK_MS);
+    if (minute === lastMinute) return;
+    lastMinute = minute;
+
+    for (const portalKey of await deps.listPortals()) {
+      try {
+        await runPortal(portalKey, now);
+      } catch (e) {
+        console.error(`${job.name} scheduling failed for ${portalKey}:`, e);
+      }
+    }
+  };
+
+  const timer = setInterval(() => {
+    tick().catch((e) => console.error(`${job.name} scheduler tick failed:`, e));
+  }, TICK_MS / 4);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,189 @@
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import {
+  type PropertyCreate,
+  PropertyCreateFieldTypeEnum,
+  PropertyCreateTypeEnum,
+} from "@hubspot/api-client/lib/codegen/crm/properties";
+import {
+  type BadDebtObjectType,
+  type PropertyMapping,
+  type SetupObjectStatus,
+  type SetupStatus,
+  WRITE_OFF_CATEGORIES,
+  WRITE_OFF_CATEGORY_LABELS,
+} from "@shared/schema";
+import { OBJECT_TYPES } from "./bad-debt";
+import { getStatusCode } from "./hubspot-client";
+
+const PROPERTY_GROUP = { name: "invoice_manager", label: "Invoice Manager" };
+
+const statuses = new Map<string, SetupStatus>();
+// Property names each status was checked against
+const checkedMappings = new Map<string, string>();
+
+function errorMessage(e: any): string {
+  return e?.body?.message || e?.response?.body?.message || e?.message || "Unknown error";
+}
+
+async function ensureGroup(client: HubSpotClient, objectType: string) {
+  try {
+    await client.crm.properties.groupsApi.getByName(objectType, PROPERTY_GROUP.name);
+  } catch (e) {
+    if (getStatusCode(e) !== 404) throw e;
+    await client.crm.properties.groupsApi.create(objectType, PROPERTY_GROUP);
+  }
+}
+
+type PropertyDefinition = Omit<PropertyCreate, "name" | "groupName">;
+
+const BAD_DEBT_PROPERTY: PropertyDefinition = {
+  label: "Bad Debt",
+  description: "Written off as bad debt by Invoice Manager",
+  type: PropertyCreateTypeEnum.Bool,
+  fieldType: PropertyCreateFieldTypeEnum.Booleancheckbox,
+  options: [
+    { label: "Yes", value: "true", displayOrder: 0, hidden: false },
+    { label: "No", value: "false", displayOrder: 1, hidden: false },
+  ],
+};
+
+// Write-off details, kept on invoices only
+function invoiceDetailProperties(mapping: PropertyMapping): [string, PropertyDefinition][] {
+  return [
+    [
+      mapping.badDebtCategory,
+      {
+        label: "Write-off Category",
+        description: "Why the invoice was written off",
+        type: PropertyCreateTypeEnum.Enumeration,
+        fieldType: PropertyCreateFieldTypeEnum.Select,
+        options: WRITE_OFF_CATEGORIES.map((value, i) => ({
+          label: WRITE_OFF_CATEGORY_LABELS[value],
+          value,
+          displayOrder: i,
+          hidden: false,
+        })),
+      },
+    ],
+    [
+      mapping.badDebtNote,
+      {
+        label: "Write-off Note",
+        description: "Note entered when the invoice was written off",
+        type: PropertyCreateTypeEnum.String,
+        fieldType: PropertyCreateFieldTypeEnum.Textarea,
+      },
+    ],
+    [
+      mapping.badDebtEffectiveDate,
+      {
+        label: "Write-off Effective Date",
+        description: "Date the write-off takes effect",
+        type: PropertyCreateTypeEnum.Date,
+        fieldType: PropertyCreateFieldTypeEnum.Date,
+      },
+    ],
+  ];
+}
+
+async function ensureProperty(
+  client: HubSpotClient,
+  objectType: BadDebtObjectType,
+  property: string,
+  definition: PropertyDefinition,
+  create: boolean
+): Promise<SetupObjectStatus> {
+  const type = OBJECT_TYPES[objectType];
+  try {
+    await client.crm.properties.coreApi.getByName(type, property);
+    return { objectType, property, status: "exists" };
+  } catch (e) {
+    if (getStatusCode(e) !== 404) {
+      return { objectType, property, status: "failed", error: errorMessage(e) };
+    }
+  }
+
+  if (!create) return { objectType, property, status: "missing" };
+
+  try {
+    await ensureGroup(client, type);
+    await client.crm.properties.coreApi.create(type, {
+      ...definition,
+      name: property,
+      groupName: PROPERTY_GROUP.name,
+    });
+    return { objectType, property, status: "created" };
+  } catch (e) {
+    return { objectType, property, status: "failed", error: errorMessage(e) };
+  }
+}
+
+function mappingKey(mapping: PropertyMapping): string {
+  return [
+    mapping.badDebt,
+    mapping.badDebtCategory,
+    mapping.badDebtNote,
+    mapping.badDebtEffectiveDate,
+  ].join("|");
+}
+
+/**
+ * Check the bad debt property on invoices, deals and companies, and the
+ * write-off detail properties on invoices, creating them where missing unless
+ * `create` is false. Never throws; failures are reported per property in the
+ * returned status.
+ */
+export async function provisionBadDebtProperty(
+  client: HubSpotClient,
+  portalKey: string,
+  mapping: PropertyMapping,
+  create = true
+): Promise<SetupStatus> {
+  const property = mapping.badDebt;
+  checkedMappings.set(portalKey, mappingKey(mapping));
+  statuses.set(portalKey, {
+    property,
+    state: "pending",
+    objects: statuses.get(portalKey)?.objects ?? [],
+    checkedAt: statuses.get(portalKey)?.checkedAt ?? null,
+  });
+
+  const objects: SetupObjectStatus[] = [];
+  for (const objectType of Object.keys(OBJECT_TYPES) as BadDebtObjectType[]) {
+    objects.push(await ensureProperty(client, objectType, property, BAD_DEBT_PROPERTY, create));
+  }
+  for (const [name, definition] of invoiceDetailProperties(mapping)) {
+    objects.push(await ensureProperty(client, "invoice", name, definition, create));
+  }
+
+  const status: SetupStatus = {
+    property,
+    state: objects.some((o) => o.status === "failed")
+      ? "failed"
+      : objects.some((o) => o.status === "missing")
+        ? "incomplete"
+        : "complete",
+    objects,
+    checkedAt: new Date().toISOString(),
+  };
+  statuses.set(portalKey, status);
+  if (status.state === "failed") {
+    console.error(`Bad debt property setup failed for ${portalKey}:`, objects);
+  }
+  return status;
+}
+
+/**
+ * Last known provisioning state for the portal. Checks HubSpot (without
+ * creating anything) when nothing is known yet or the mapped property names
+ * changed.
+ */
+export async function getSetupStatus(
+  client: HubSpotClient,
+  portalKey: string,
+  mapping: PropertyMapping
+): Promise<SetupStatus> {
+  const cached = statuses.get(portalKey);
+  if (cached && checkedMappings.get(portalKey) === mappingKey(mapping)) return cached;
+  return provisionBadDebtProperty(client, portalKey, mapping, false);
+}
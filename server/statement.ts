@@ -0,0 +1,222 @@
+import PDFDocument from "pdfkit";
+import {
+  DEFAULT_CURRENCY,
+  isOpenDispute,
+  type CompanyData,
+  type CurrencyAmounts,
+  type Invoice,
+  type StatementSettings,
+} from "@shared/schema";
+import {
+  buildAgingReport,
+  daysPastDue,
+  dueDayNumber,
+  isOverdue,
+  todayDayNumber,
+  type OverdueRule,
+} from "@shared/overdue";
+import { formatAmounts, formatCurrency, formatDay } from "@shared/format";
+
+const MARGIN = 50;
+const ROW_HEIGHT = 18;
+
+// The built-in Helvetica only covers WinAnsi, which has no ₹, ₩, ₺, ... signs
+const money = (invoice: Invoice) => formatCurrency(invoice.amount, invoice.currency, "code");
+const moneyTotals = (amounts: CurrencyAmounts) => formatAmounts(amounts, "code");
+
+interface Column {
+  label: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+const INVOICE_COLUMNS: Column[] = [
+  { label: "Invoice", width: 140 },
+  { label: "Due Date", width: 100 },
+  { label: "Days Overdue", width: 80, align: "right" },
+  { label: "Amount", width: 110, align: "right" },
+  { label: "Status", width: 82, align: "right" },
+];
+
+const AGING_COLUMNS: Column[] = [
+  { label: "Days Past Due", width: 140 },
+  { label: "Invoices", width: 80, align: "right" },
+  { label: "Amount", width: 292, align: "right" },
+];
+
+function addAmount(amounts: CurrencyAmounts, invoice: Invoice) {
+  const n = Number(invoice.amount);
+  const currency = invoice.currency || DEFAULT_CURRENCY;
+  amounts[currency] = (amounts[currency] || 0) + (Number.isNaN(n) ? 0 : n);
+}
+
+function drawRow(
+  doc: PDFKit.PDFDocument,
+  columns: Column[],
+  cells: string[],
+  bold = false
+) {
+  if (doc.y + ROW_HEIGHT > doc.page.height - MARGIN) doc.addPage();
+
+  const y = doc.y;
+  let x = MARGIN;
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+  columns.forEach((column, i) => {
+    doc.text(cells[i] ?? "", x + 2, y + 4, {
+      width: column.width - 4,
+      align: column.align ?? "left",
+      lineBreak: false,
+      ellipsis: true,
+    });
+    x += column.width;
+  });
+  doc
+    .moveTo(MARGIN, y + ROW_HEIGHT)
+    .lineTo(x, y + ROW_HEIGHT)
+    .strokeColor("#dddddd")
+    .stroke();
+  doc.x = MARGIN;
+  doc.y = y + ROW_HEIGHT;
+}
+
+function drawTable(
+  doc: PDFKit.PDFDocument,
+  title: string,
+  columns: Column[],
+  rows: string[][],
+  footer?: string[]
+) {
+  doc.moveDown().font("Helvetica-Bold").fontSize(12).text(title, MARGIN);
+  doc.moveDown(0.3);
+  drawRow(doc, columns, columns.map((c) => c.label), true);
+  for (const row of rows) drawRow(doc, columns, row);
+  if (footer) drawRow(doc, columns, footer, true);
+}
+
+function drawLetterhead(doc: PDFKit.PDFDocument, settings: StatementSettings) {
+  const top = doc.y;
+  let logoBottom = top;
+  if (settings.logo) {
+    try {
+      const data = Buffer.from(settings.logo.split(",")[1] ?? "", "base64");
+      doc.image(data, MARGIN, top, { fit: [160, 60] });
+      logoBottom = top + 60;
+    } catch (e) {
+      console.warn("Statement logo could not be drawn:", e);
+    }
+  }
+
+  const lines = (settings.headerText ?? "").split("\n").filter((l) => l.trim());
+  const width = doc.page.width - 2 * MARGIN - 180;
+  doc.y = top;
+  lines.forEach((line, i) => {
+    doc
+      .font(i === 0 ? "Helvetica-Bold" : "Helvetica")
+      .fontSize(i === 0 ? 11 : 9)
+      .text(line, MARGIN + 180, doc.y, { width, align: "right" });
+  });
+
+  doc.x = MARGIN;
+  doc.y = Math.max(doc.y, logoBottom) + 20;
+}
+
+/**
+ * Statement of account for a company: its open invoices (oldest due first),
+ * receivables aging and totals as of today in the portal's time zone, under
+ * the portal's letterhead. Invoices written off as bad debt are left out of
+ * every table and total. Resolves to the PDF bytes.
+ */
+export function renderStatement(
+  data: CompanyData,
+  rule: OverdueRule,
+  settings: StatementSettings,
+  now = new Date()
+): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const receivable = data.invoices.filter((i) => i.bad_debt !== "true");
+  const aging = buildAgingReport(receivable, rule, now);
+  const open = receivable
+    .filter((i) => i.hs_invoice_status.toLowerCase() === "open")
+    .map((i) => ({
+      invoice: i,
+      dueDay: i.hs_due_date ? dueDayNumber(i.hs_due_date, rule.timeZone) : null,
+    }))
+    .sort((a, b) => (a.dueDay ?? Infinity) - (b.dueDay ?? Infinity));
+
+  drawLetterhead(doc, settings);
+
+  doc.font("Helvetica-Bold").fontSize(18).text("Statement of Account");
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .text(`As of ${formatDay(todayDayNumber(rule, now))}`)
+    .moveDown(0.5)
+    .font("Helvetica-Bold")
+    .text(data.company?.name || `Company ${data.company?.id ?? ""}`);
+
+  const current: CurrencyAmounts = {};
+  const overdue: CurrencyAmounts = {};
+  let currentCount = 0;
+  const invoiceRows = open.map(({ invoice, dueDay }) => {
+    const late = isOverdue(invoice, rule, now);
+    if (late) {
+      addAmount(overdue, invoice);
+    } else {
+      currentCount++;
+      addAmount(current, invoice);
+    }
+    return [
+      invoice.hs_invoice_number || invoice.id,
+      dueDay === null ? "-" : formatDay(dueDay),
+      late ? String(daysPastDue(invoice.hs_due_date!, rule, now)) : "",
+      money(invoice),
+      isOpenDispute(invoice.dispute) ? "Disputed" : late ? "Overdue" : "Open",
+    ];
+  });
+
+  if (invoiceRows.length) {
+    drawTable(doc, "Open Invoices", INVOICE_COLUMNS, invoiceRows);
+  } else {
+    doc.moveDown().font("Helvetica").fontSize(10).text("No open invoices.");
+  }
+
+  drawTable(
+    doc,
+    "Aging",
+    AGING_COLUMNS,
+    [
+      ["Current", String(currentCount), moneyTotals(current)],
+      ...aging.buckets.map((b) => [b.label, String(b.count), moneyTotals(b.amounts)]),
+    ],
+    [
+      "Total outstanding",
+      String(aging.totalOutstanding.count),
+      moneyTotals(aging.totalOutstanding.amounts),
+    ]
+  );
+
+  doc.moveDown();
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(10)
+    .text(`Total overdue: ${moneyTotals(overdue)}`, MARGIN)
+    .text(`Total due: ${moneyTotals(aging.totalOutstanding.amounts)}`, MARGIN);
+
+  if (data.truncated) {
+    doc
+      .moveDown()
+      .font("Helvetica-Oblique")
+      .fontSize(8)
+      .text("This company has more invoices than could be loaded; the statement may be incomplete.");
+  }
+
+  doc.end();
+  return done;
+}
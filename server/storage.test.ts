@@ -0,0 +1,239 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { getTableName, is } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/pglite";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import * as schema from "@shared/schema";
+import { portalSettingsSchema } from "@shared/schema";
+import type { Database } from "./db";
+import { DbStorage } from "./storage";
+
+// DbStorage against embedded Postgres, with the tables drizzle-kit would push
+let client: PGlite;
+let storage: DbStorage;
+
+beforeAll(async () => {
+  client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const sql of statements) await client.exec(sql);
+  storage = new DbStorage(drizzle(client, { schema }) as unknown as Database);
+}, 60_000);
+
+beforeEach(async () => {
+  const tables = Object.values(schema)
+    .filter((t) => is(t, PgTable))
+    .map((t) => `"${getTableName(t)}"`);
+  await client.exec(`TRUNCATE ${tables.join(", ")} RESTART IDENTITY`);
+});
+
+afterAll(async () => {
+  await client?.close();
+});
+
+describe("tokens", () => {
+  it("upserts a portal's token and bumps updatedAt", async () => {
+    await storage.saveToken({ portalId: "p1", accessToken: "a1", refreshToken: "r1", expiresAt: 1 });
+    const first = await storage.getToken("p1");
+
+    await storage.saveToken({ portalId: "p1", accessToken: "a2", refreshToken: "r2", expiresAt: 2 });
+    const second = await storage.getToken("p1");
+
+    expect(second).toMatchObject({ accessToken: "a2", refreshToken: "r2", expiresAt: 2 });
+    expect(second!.createdAt).toEqual(first!.createdAt);
+    expect(second!.updatedAt!.getTime()).toBeGreaterThanOrEqual(first!.updatedAt!.getTime());
+    expect(await storage.listTokens()).toHaveLength(1);
+  });
+
+  it("deletes a portal's token", async () => {
+    await storage.saveToken({ portalId: "p1", accessToken: "a", refreshToken: "r", expiresAt: 1 });
+    await storage.deleteToken("p1");
+    expect(await storage.getToken("p1")).toBeNull();
+  });
+});
+
+describe("settings", () => {
+  it("returns null until saved, then the latest settings", async () => {
+    expect(await storage.getSettings("p1")).toBeNull();
+
+    const settings = portalSettingsSchema.parse({});
+    await storage.saveSettings("p1", settings);
+    await storage.saveSettings("p1", { ...settings, overdueGraceDays: 5 });
+
+    expect(await storage.getSettings("p1")).toEqual({ ...settings, overdueGraceDays: 5 });
+    expect(await storage.getSettings("p2")).toBeNull();
+  });
+});
+
+describe("audit events", () => {
+  it("lists a company's events newest first", async () => {
+    const event = { portalId: "p1", companyId: "c1", objectType: "invoice", newValue: "true" };
+    await storage.addAuditEvents([
+      { ...event, objectId: "i1" },
+      { ...event, objectId: "i2" },
+      { ...event, companyId: "c2", objectId: "i3" },
+    ]);
+
+    const events = await storage.getAuditEvents("p1", "c1");
+    expect(events.map((e) => e.objectId)).toEqual(["i2", "i1"]);
+  });
+});
+
+describe("pending write-offs", () => {
+  it("skips invoices already pending and sorts by days past due", async () => {
+    const item = { portalId: "p1", companyId: "c1", daysPastDue: 100 };
+    expect(
+      await storage.addPendingWriteOffs([
+        { ...item, invoiceId: "i1" },
+        { ...item, invoiceId: "i2", daysPastDue: 200 },
+      ])
+    ).toBe(2);
+    expect(await storage.addPendingWriteOffs([{ ...item, invoiceId: "i1" }])).toBe(0);
+
+    const pending = await storage.getPendingWriteOffs("p1");
+    expect(pending.map((p) => p.invoiceId)).toEqual(["i2", "i1"]);
+
+    await storage.deletePendingWriteOff("p1", pending[0].id);
+    expect(await storage.getPendingWriteOff("p1", pending[0].id)).toBeNull();
+  });
+});
+
+describe("write-off requests", () => {
+  const newRequest = {
+    portalId: "p1",
+    companyId: "c1",
+    invoiceId: "i1",
+    status: "requested" as const,
+  };
+
+  it("applies a decision only while the request has the expected status", async () => {
+    const request = await storage.createWriteOffRequest(newRequest);
+    expect(await storage.getOpenWriteOffRequest("p1", "i1")).toMatchObject({ id: request.id });
+
+    const approved = await storage.updateWriteOffRequest(
+      "p1",
+      request.id,
+      { status: "approved", decidedBy: "u1" },
+      "requested"
+    );
+    const rejected = await storage.updateWriteOffRequest(
+      "p1",
+      request.id,
+      { status: "rejected", decidedBy: "u2" },
+      "requested"
+    );
+
+    expect(approved).toMatchObject({ status: "approved", decidedBy: "u1" });
+    expect(rejected).toBeNull();
+    expect(await storage.getWriteOffRequest("p1", request.id)).toMatchObject({ decidedBy: "u1" });
+  });
+
+  it("keeps requests to their portal", async () => {
+    const request = await storage.createWriteOffRequest(newRequest);
+
+    expect(await storage.updateWriteOffRequest("p2", request.id, { status: "approved" })).toBeNull();
+    expect(await storage.getWriteOffRequests("p1", "requested")).toHaveLength(1);
+    expect(await storage.getWriteOffRequests("p2")).toHaveLength(0);
+  });
+
+  it("no longer counts applied requests as open", async () => {
+    const request = await storage.createWriteOffRequest(newRequest);
+    await storage.updateWriteOffRequest("p1", request.id, { status: "applied" });
+
+    expect(await storage.getOpenWriteOffRequest("p1", "i1")).toBeNull();
+  });
+});
+
+describe("dunning emails", () => {
+  it("logs send attempts per company and invoice", async () => {
+    const email = await storage.addDunningEmail({
+      portalId: "p1",
+      companyId: "c1",
+      invoiceId: "i1",
+      template: "first_reminder",
+      recipient: "ap@example.com",
+      subject: "Reminder",
+      status: "failed",
+    });
+    await storage.updateDunningEmail("p1", email.id, { status: "sent", messageId: "m1" });
+
+    expect(await storage.getDunningEmails("p1", "c1", "i1")).toEqual([
+      expect.objectContaining({ status: "sent", messageId: "m1" }),
+    ]);
+    expect(await storage.getDunningEmails("p1", "c1", "i2")).toEqual([]);
+  });
+});
+
+describe("dunning", () => {
+  it("keeps one state per invoice", async () => {
+    const state = { portalId: "p1", companyId: "c1", invoiceId: "i1" };
+    await storage.saveDunningState({ ...state, stageDay: 7, action: "email" });
+    await storage.saveDunningState({ ...state, stageDay: 30, action: "collections" });
+
+    expect(await storage.getDunningStates("p1", "c1")).toEqual([
+      expect.objectContaining({ stageDay: 30, action: "collections" }),
+    ]);
+  });
+
+  it("pauses and resumes a company", async () => {
+    await storage.saveDunningPause({ portalId: "p1", companyId: "c1", reason: "Call first" });
+    await storage.saveDunningPause({ portalId: "p1", companyId: "c1", reason: "Disputed" });
+
+    expect(await storage.getDunningPauses("p1")).toEqual([
+      expect.objectContaining({ companyId: "c1", reason: "Disputed" }),
+    ]);
+
+    await storage.deleteDunningPause("p1", "c1");
+    expect(await storage.getDunningPause("p1", "c1")).toBeNull();
+  });
+
+  it("lists a company's stage events", async () => {
+    const event = await storage.addDunningEvent({
+      portalId: "p1",
+      companyId: "c1",
+      invoiceId: "i1",
+      stageDay: 7,
+      action: "email",
+      status: "done",
+    });
+
+    expect(await storage.getDunningEvents("p1", "c1")).toEqual([event]);
+    expect(await storage.getDunningEvents("p1", "c2")).toEqual([]);
+  });
+});
+
+describe("disputes", () => {
+  const dispute = {
+    portalId: "p1",
+    companyId: "c1",
+    invoiceId: "i1",
+    status: "opened" as const,
+    openedBy: "u1",
+  };
+
+  it("records resolution and keeps who opened the dispute", async () => {
+    const opened = await storage.saveInvoiceDispute(dispute);
+    expect(opened.resolvedAt).toBeNull();
+    expect(await storage.getOpenDisputes("p1")).toHaveLength(1);
+
+    const resolved = await storage.saveInvoiceDispute({
+      ...dispute,
+      status: "resolved_us",
+      openedBy: "u2",
+      updatedBy: "u2",
+    });
+
+    expect(resolved).toMatchObject({ id: opened.id, openedBy: "u1", updatedBy: "u2" });
+    expect(resolved.resolvedAt).toBeInstanceOf(Date);
+    expect(await storage.getOpenDisputes("p1")).toEqual([]);
+    expect(await storage.getInvoiceDisputes("p1", "c1")).toHaveLength(1);
+  });
+
+  it("clears the resolution when a dispute is reopened", async () => {
+    await storage.saveInvoiceDispute({ ...dispute, status: "resolved_customer" });
+    const reopened = await storage.saveInvoiceDispute({ ...dispute, status: "under_review" });
+
+    expect(reopened.resolvedAt).toBeNull();
+    expect(await storage.getInvoiceDispute("p1", "i1")).toMatchObject({ status: "under_review" });
+  });
+});
@@ -1,22 +1,135 @@
-import type { HubspotToken, InsertHubspotToken } from "@shared/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import {
+  auditEvents,
+  dunningEmails,
+  dunningEvents,
+  dunningPauses,
+  dunningStates,
+  hubspotTokens,
+  invoiceDisputes,
+  pendingWriteOffs,
+  portalSettings,
+  writeOffRequests,
+} from "@shared/schema";
+import { isOpenDispute, OPEN_DISPUTE_STATUSES } from "@shared/schema";
+import type {
+  AuditEvent,
+  DunningEmail,
+  DunningEvent,
+  DunningPause,
+  DunningState,
+  HubspotToken,
+  InsertAuditEvent,
+  InsertDunningEmail,
+  InsertDunningEvent,
+  InsertDunningPause,
+  InsertDunningState,
+  InsertHubspotToken,
+  InsertInvoiceDispute,
+  InsertPendingWriteOff,
+  InvoiceDispute,
+  InsertWriteOffRequest,
+  PendingWriteOff,
+  PortalSettings,
+  WriteOffRequest,
+  WriteOffRequestStatus,
+} from "@shared/schema";
+import { db, type Database } from "./db";
+import { keyring, decryptValue, encryptValue, type Keyring } from "./crypto";
 
 export interface IStorage {
+  listTokens(): Promise<HubspotToken[]>;
   getToken(portalId: string): Promise<HubspotToken | null>;
   saveToken(token: InsertHubspotToken): Promise<void>;
   deleteToken(portalId: string): Promise<void>;
+
+  getSettings(portalId: string): Promise<PortalSettings | null>;
+  saveSettings(portalId: string, settings: PortalSettings): Promise<void>;
+
+  addAuditEvents(events: InsertAuditEvent[]): Promise<void>;
+  getAuditEvents(portalId: string, companyId: string): Promise<AuditEvent[]>;
+
+  /** Skips invoices already queued; returns how many were added. */
+  addPendingWriteOffs(items: InsertPendingWriteOff[]): Promise<number>;
+  getPendingWriteOffs(portalId: string): Promise<PendingWriteOff[]>;
+  getPendingWriteOff(portalId: string, id: number): Promise<PendingWriteOff | null>;
+  deletePendingWriteOff(portalId: string, id: number): Promise<void>;
+
+  createWriteOffRequest(request: InsertWriteOffRequest): Promise<WriteOffRequest>;
+  /** Newest first; all statuses when `status` is omitted. */
+  getWriteOffRequests(portalId: string, status?: WriteOffRequestStatus): Promise<WriteOffRequest[]>;
+  getWriteOffRequest(portalId: string, id: number): Promise<WriteOffRequest | null>;
+  /** A requested or approved (not yet applied) request for the invoice. */
+  getOpenWriteOffRequest(portalId: string, invoiceId: string): Promise<WriteOffRequest | null>;
+  /**
+   * With `expectedStatus`, only updates the request while it still has that
+   * status (null otherwise), so concurrent decisions can't both win.
+   */
+  updateWriteOffRequest(
+    portalId: string,
+    id: number,
+    patch: Partial<InsertWriteOffRequest>,
+    expectedStatus?: WriteOffRequestStatus
+  ): Promise<WriteOffRequest | null>;
+
+  addDunningEmail(email: InsertDunningEmail): Promise<DunningEmail>;
+  updateDunningEmail(
+    portalId: string,
+    id: number,
+    patch: Partial<InsertDunningEmail>
+  ): Promise<DunningEmail | null>;
+  /** Newest first; only the invoice's reminders when `invoiceId` is given. */
+  getDunningEmails(portalId: string, companyId: string, invoiceId?: string): Promise<DunningEmail[]>;
+
+  getDunningStates(portalId: string, companyId: string): Promise<DunningState[]>;
+  /** Inserts or replaces the invoice's state. */
+  saveDunningState(state: InsertDunningState): Promise<void>;
+  addDunningEvent(event: InsertDunningEvent): Promise<DunningEvent>;
+  /** Newest first. */
+  getDunningEvents(portalId: string, companyId: string): Promise<DunningEvent[]>;
+  getDunningPauses(portalId: string): Promise<DunningPause[]>;
+  getDunningPause(portalId: string, companyId: string): Promise<DunningPause | null>;
+  /** Inserts or replaces the company's pause. */
+  saveDunningPause(pause: InsertDunningPause): Promise<DunningPause>;
+  deleteDunningPause(portalId: string, companyId: string): Promise<void>;
+
+  /** Open and resolved disputes on the company's invoices. */
+  getInvoiceDisputes(portalId: string, companyId: string): Promise<InvoiceDispute[]>;
+  getInvoiceDispute(portalId: string, invoiceId: string): Promise<InvoiceDispute | null>;
+  /** Open disputes across the portal, most recently changed first. */
+  getOpenDisputes(portalId: string): Promise<InvoiceDispute[]>;
+  /** Inserts or updates the invoice's dispute; keeps who opened it and when. */
+  saveInvoiceDispute(dispute: InsertInvoiceDispute): Promise<InvoiceDispute>;
 }
 
+const OPEN_REQUEST_STATUSES: WriteOffRequestStatus[] = ["requested", "approved"];
+
 export class MemStorage implements IStorage {
   private tokens: Map<string, HubspotToken> = new Map();
+  private settings: Map<string, PortalSettings> = new Map();
+  private auditEvents: AuditEvent[] = [];
+  private pendingWriteOffs: PendingWriteOff[] = [];
+  private nextPendingWriteOffId = 1;
+  private writeOffRequests: WriteOffRequest[] = [];
+  private dunningEmails: DunningEmail[] = [];
+  private dunningStates: DunningState[] = [];
+  private dunningEvents: DunningEvent[] = [];
+  private dunningPauses: DunningPause[] = [];
+  private invoiceDisputes: InvoiceDispute[] = [];
+
+  async listTokens(): Promise<HubspotToken[]> {
+    return Array.from(this.tokens.values());
+  }
 
   async getToken(portalId: string): Promise<HubspotToken | null> {
     return this.tokens.get(portalId) || null;
   }
 
   async saveToken(token: InsertHubspotToken): Promise<void> {
+    const existing = this.tokens.get(token.portalId);
     this.tokens.set(token.portalId, {
       ...token,
-      createdAt: new Date(),
+      createdAt: existing?.createdAt ?? new Date(),
       updatedAt: new Date(),
     });
   }
@@ -24,6 +137,782 @@ export class MemStorage implements IStorage {
   async deleteToken(portalId: string): Promise<void> {
     this.tokens.delete(portalId);
   }
+
+  async getSettings(portalId: string): Promise<PortalSettings | null> {
+    return this.settings.get(portalId) || null;
+  }
+
+  async saveSettings(portalId: string, settings: PortalSettings): Promise<void> {
+    this.settings.set(portalId, settings);
+  }
+
+  async addAuditEvents(events: InsertAuditEvent[]): Promise<void> {
+    for (const event of events) {
+      this.auditEvents.push({
+        id: this.auditEvents.length + 1,
+        hubspotUserId: null,
+        oldValue: null,
+        newValue: null,
+        reason: null,
+        ...event,
+        createdAt: new Date(),
+      });
+    }
+  }
+
+  async getAuditEvents(portalId: string, companyId: string): Promise<AuditEvent[]> {
+    return this.auditEvents
+      .filter((e) => e.portalId === portalId && e.companyId === companyId)
+      .reverse();
+  }
+
+  async addPendingWriteOffs(items: InsertPendingWriteOff[]): Promise<number> {
+    let added = 0;
+    for (const item of items) {
+      const queued = this.pendingWriteOffs.some(
+        (p) => p.portalId === item.portalId && p.invoiceId === item.invoiceId
+      );
+      if (queued) continue;
+      this.pendingWriteOffs.push({
+        id: this.nextPendingWriteOffId++,
+        dealId: null,
+        invoiceNumber: null,
+        amount: null,
+        currency: null,
+        dueDate: null,
+        ...item,
+        createdAt: new Date(),
+      });
+      added++;
+    }
+    return added;
+  }
+
+  async getPendingWriteOffs(portalId: string): Promise<PendingWriteOff[]> {
+    return this.pendingWriteOffs
+      .filter((p) => p.portalId === portalId)
+      .sort((a, b) => b.daysPastDue - a.daysPastDue);
+  }
+
+  async getPendingWriteOff(portalId: string, id: number): Promise<PendingWriteOff | null> {
+    return (
+      this.pendingWriteOffs.find((p) => p.portalId === portalId && p.id === id) || null
+    );
+  }
+
+  async deletePendingWriteOff(portalId: string, id: number): Promise<void> {
+    this.pendingWriteOffs = this.pendingWriteOffs.filter(
+      (p) => !(p.portalId === portalId && p.id === id)
+    );
+  }
+
+  async createWriteOffRequest(request: InsertWriteOffRequest): Promise<WriteOffRequest> {
+    const created: WriteOffRequest = {
+      id: this.writeOffRequests.length + 1,
+      dealId: null,
+      invoiceNumber: null,
+      amount: null,
+      currency: null,
+      reason: null,
+      note: null,
+      effectiveDate: null,
+      requestedBy: null,
+      decidedBy: null,
+      decisionNote: null,
+      decidedAt: null,
+      appliedAt: null,
+      error: null,
+      ...request,
+      category: request.category ?? null,
+      createdAt: new Date(),
+    };
+    this.writeOffRequests.push(created);
+    return created;
+  }
+
+  async getWriteOffRequests(
+    portalId: string,
+    status?: WriteOffRequestStatus
+  ): Promise<WriteOffRequest[]> {
+    return this.writeOffRequests
+      .filter((r) => r.portalId === portalId && (!status || r.status === status))
+      .reverse();
+  }
+
+  async getWriteOffRequest(portalId: string, id: number): Promise<WriteOffRequest | null> {
+    return this.writeOffRequests.find((r) => r.portalId === portalId && r.id === id) || null;
+  }
+
+  async getOpenWriteOffRequest(
+    portalId: string,
+    invoiceId: string
+  ): Promise<WriteOffRequest | null> {
+    return (
+      this.writeOffRequests.find(
+        (r) =>
+          r.portalId === portalId &&
+          r.invoiceId === invoiceId &&
+          OPEN_REQUEST_STATUSES.includes(r.status)
+      ) || null
+    );
+  }
+
+  async updateWriteOffRequest(
+    portalId: string,
+    id: number,
+    patch: Partial<InsertWriteOffRequest>,
+    expectedStatus?: WriteOffRequestStatus
+  ): Promise<WriteOffRequest | null> {
+    const request = await this.getWriteOffRequest(portalId, id);
+    if (!request || (expectedStatus && request.status !== expectedStatus)) return null;
+    Object.assign(request, patch);
+    return request;
+  }
+
+  async addDunningEmail(email: InsertDunningEmail): Promise<DunningEmail> {
+    const created: DunningEmail = {
+      id: this.dunningEmails.length + 1,
+      error: null,
+      messageId: null,
+      engagementId: null,
+      sentBy: null,
+      ...email,
+      createdAt: new Date(),
+    };
+    this.dunningEmails.push(created);
+    return created;
+  }
+
+  async updateDunningEmail(
+    portalId: string,
+    id: number,
+    patch: Partial<InsertDunningEmail>
+  ): Promise<DunningEmail | null> {
+    const email = this.dunningEmails.find((e) => e.portalId === portalId && e.id === id);
+    if (!email) return null;
+    Object.assign(email, patch);
+    return email;
+  }
+
+  async getDunningEmails(
+    portalId: string,
+    companyId: string,
+    invoiceId?: string
+  ): Promise<DunningEmail[]> {
+    return this.dunningEmails
+      .filter(
+        (e) =>
+          e.portalId === portalId &&
+          e.companyId === companyId &&
+          (!invoiceId || e.invoiceId === invoiceId)
+      )
+      .reverse();
+  }
+
+  async getDunningStates(portalId: string, companyId: string): Promise<DunningState[]> {
+    return this.dunningStates.filter(
+      (s) => s.portalId === portalId && s.companyId === companyId
+    );
+  }
+
+  async saveDunningState(state: InsertDunningState): Promise<void> {
+    this.dunningStates = this.dunningStates.filter(
+      (s) => !(s.portalId === state.portalId && s.invoiceId === state.invoiceId)
+    );
+    this.dunningStates.push({ ...state, updatedAt: new Date() });
+  }
+
+  async addDunningEvent(event: InsertDunningEvent): Promise<DunningEvent> {
+    const created: DunningEvent = {
+      id: this.dunningEvents.length + 1,
+      stageDay: null,
+      message: null,
+      userId: null,
+      ...event,
+      createdAt: new Date(),
+    };
+    this.dunningEvents.push(created);
+    return created;
+  }
+
+  async getDunningEvents(portalId: string, companyId: string): Promise<DunningEvent[]> {
+    return this.dunningEvents
+      .filter((e) => e.portalId === portalId && e.companyId === companyId)
+      .reverse();
+  }
+
+  async getDunningPauses(portalId: string): Promise<DunningPause[]> {
+    return this.dunningPauses.filter((p) => p.portalId === portalId);
+  }
+
+  async getDunningPause(portalId: string, companyId: string): Promise<DunningPause | null> {
+    return (
+      this.dunningPauses.find((p) => p.portalId === portalId && p.companyId === companyId) ||
+      null
+    );
+  }
+
+  async saveDunningPause(pause: InsertDunningPause): Promise<DunningPause> {
+    await this.deleteDunningPause(pause.portalId, pause.companyId);
+    const created: DunningPause = {
+      reason: null,
+      pausedBy: null,
+      ...pause,
+      createdAt: new Date(),
+    };
+    this.dunningPauses.push(created);
+    return created;
+  }
+
+  async deleteDunningPause(portalId: string, companyId: string): Promise<void> {
+    this.dunningPauses = this.dunningPauses.filter(
+      (p) => !(p.portalId === portalId && p.companyId === companyId)
+    );
+  }
+
+  async getInvoiceDisputes(portalId: string, companyId: string): Promise<InvoiceDispute[]> {
+    return this.invoiceDisputes.filter(
+      (d) => d.portalId === portalId && d.companyId === companyId
+    );
+  }
+
+  async getInvoiceDispute(portalId: string, invoiceId: string): Promise<InvoiceDispute | null> {
+    return (
+      this.invoiceDisputes.find((d) => d.portalId === portalId && d.invoiceId === invoiceId) ||
+      null
+    );
+  }
+
+  async getOpenDisputes(portalId: string): Promise<InvoiceDispute[]> {
+    return this.invoiceDisputes
+      .filter((d) => d.portalId === portalId && isOpenDispute(d.status))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async saveInvoiceDispute(dispute: InsertInvoiceDispute): Promise<InvoiceDispute> {
+    const now = new Date();
+    const resolvedAt = isOpenDispute(dispute.status) ? null : now;
+    const existing = await this.getInvoiceDispute(dispute.portalId, dispute.invoiceId);
+    if (existing) {
+      const { openedBy, ...patch } = dispute;
+      return Object.assign(existing, patch, { updatedAt: now, resolvedAt });
+    }
+
+    const created: InvoiceDispute = {
+      id: this.invoiceDisputes.length + 1,
+      invoiceNumber: null,
+      amount: null,
+      currency: null,
+      note: null,
+      openedBy: null,
+      updatedBy: null,
+      ...dispute,
+      createdAt: now,
+      updatedAt: now,
+      resolvedAt,
+    };
+    this.invoiceDisputes.push(created);
+    return created;
+  }
+}
+
+/**
+ * Postgres-backed storage over the `hubspot_tokens` table, so tokens survive restarts.
+ */
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async listTokens(): Promise<HubspotToken[]> {
+    return this.db.select().from(hubspotTokens);
+  }
+
+  async getToken(portalId: string): Promise<HubspotToken | null> {
+    const rows = await this.db
+      .select()
+      .from(hubspotTokens)
+      .where(eq(hubspotTokens.portalId, portalId))
+      .limit(1);
+    return rows[0] || null;
+  }
+
+  async saveToken(token: InsertHubspotToken): Promise<void> {
+    await this.db
+      .insert(hubspotTokens)
+      .values(token)
+      .onConflictDoUpdate({
+        target: hubspotTokens.portalId,
+        set: {
+          accessToken: token.accessToken,
+          refreshToken: token.refreshToken,
+          expiresAt: token.expiresAt,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async deleteToken(portalId: string): Promise<void> {
+    await this.db
+      .delete(hubspotTokens)
+      .where(eq(hubspotTokens.portalId, portalId));
+  }
+
+  async getSettings(portalId: string): Promise<PortalSettings | null> {
+    const rows = await this.db
+      .select()
+      .from(portalSettings)
+      .where(eq(portalSettings.portalId, portalId))
+      .limit(1);
+    return rows[0]?.settings || null;
+  }
+
+  async saveSettings(portalId: string, settings: PortalSettings): Promise<void> {
+    await this.db
+      .insert(portalSettings)
+      .values({ portalId, settings })
+      .onConflictDoUpdate({
+        target: portalSettings.portalId,
+        set: { settings, updatedAt: new Date() },
+      });
+  }
+
+  async addAuditEvents(events: InsertAuditEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    await this.db.insert(auditEvents).values(events);
+  }
+
+  async getAuditEvents(portalId: string, companyId: string): Promise<AuditEvent[]> {
+    return this.db
+      .select()
+      .from(auditEvents)
+      .where(
+        and(
+          eq(auditEvents.portalId, portalId),
+          eq(auditEvents.companyId, companyId)
+        )
+      )
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id));
+  }
+
+  async addPendingWriteOffs(items: InsertPendingWriteOff[]): Promise<number> {
+    if (items.length === 0) return 0;
+    const rows = await this.db
+      .insert(pendingWriteOffs)
+      .values(items)
+      .onConflictDoNothing({
+        target: [pendingWriteOffs.portalId, pendingWriteOffs.invoiceId],
+      })
+      .returning({ id: pendingWriteOffs.id });
+    return rows.length;
+  }
+
+  async getPendingWriteOffs(portalId: string): Promise<PendingWriteOff[]> {
+    return this.db
+      .select()
+      .from(pendingWriteOffs)
+      .where(eq(pendingWriteOffs.portalId, portalId))
+      .orderBy(desc(pendingWriteOffs.daysPastDue));
+  }
+
+  async getPendingWriteOff(portalId: string, id: number): Promise<PendingWriteOff | null> {
+    const rows = await this.db
+      .select()
+      .from(pendingWriteOffs)
+      .where(and(eq(pendingWriteOffs.portalId, portalId), eq(pendingWriteOffs.id, id)))
+      .limit(1);
+    return rows[0] || null;
+  }
+
+  async deletePendingWriteOff(portalId: string, id: number): Promise<void> {
+    await this.db
+      .delete(pendingWriteOffs)
+      .where(and(eq(pendingWriteOffs.portalId, portalId), eq(pendingWriteOffs.id, id)));
+  }
+
+  async createWriteOffRequest(request: InsertWriteOffRequest): Promise<WriteOffRequest> {
+    const rows = await this.db.insert(writeOffRequests).values(request).returning();
+    return rows[0];
+  }
+
+  async getWriteOffRequests(
+    portalId: string,
+    status?: WriteOffRequestStatus
+  ): Promise<WriteOffRequest[]> {
+    return this.db
+      .select()
+      .from(writeOffRequests)
+      .where(
+        status
+          ? and(eq(writeOffRequests.portalId, portalId), eq(writeOffRequests.status, status))
+          : eq(writeOffRequests.portalId, portalId)
+      )
+      .orderBy(desc(writeOffRequests.createdAt), desc(writeOffRequests.id));
+  }
+
+  async getWriteOffRequest(portalId: string, id: number): Promise<WriteOffRequest | null> {
+    const rows = await this.db
+      .select()
+      .from(writeOffRequests)
+      .where(and(eq(writeOffRequests.portalId, portalId), eq(writeOffRequests.id, id)))
+      .limit(1);
+    return rows[0] || null;
+  }
+
+  async getOpenWriteOffRequest(
+    portalId: string,
+    invoiceId: string
+  ): Promise<WriteOffRequest | null> {
+    const rows = await this.db
+      .select()
+      .from(writeOffRequests)
+      .where(
+        and(
+          eq(writeOffRequests.portalId, portalId),
+          eq(writeOffRequests.invoiceId, invoiceId),
+          inArray(writeOffRequests.status, OPEN_REQUEST_STATUSES)
+        )
+      )
+      .limit(1);
+    return rows[0] || null;
+  }
+
+  async updateWriteOffRequest(
+    portalId: string,
+    id: number,
+    patch: Partial<InsertWriteOffRequest>,
+    expectedStatus?: WriteOffRequestStatus
+  ): Promise<WriteOffRequest | null> {
+    const conditions = [eq(writeOffRequests.portalId, portalId), eq(writeOffRequests.id, id)];
+    if (expectedStatus) conditions.push(eq(writeOffRequests.status, expectedStatus));
+    const rows = await this.db
+      .update(writeOffRequests)
+      .set(patch)
+      .where(and(...conditions))
+      .returning();
+    return rows[0] || null;
+  }
+
+  async addDunningEmail(email: InsertDunningEmail): Promise<DunningEmail> {
+    const rows = await this.db.insert(dunningEmails).values(email).returning();
+    return rows[0];
+  }
+
+  async updateDunningEmail(
+    portalId: string,
+    id: number,
+    patch: Partial<InsertDunningEmail>
+  ): Promise<DunningEmail | null> {
+    const rows = await this.db
+      .update(dunningEmails)
+      .set(patch)
+      .where(and(eq(dunningEmails.portalId, portalId), eq(dunningEmails.id, id)))
+      .returning();
+    return rows[0] || null;
+  }
+
+  async getDunningEmails(
+    portalId: string,
+    companyId: string,
+    invoiceId?: string
+  ): Promise<DunningEmail[]> {
+    const conditions = [
+      eq(dunningEmails.portalId, portalId),
+      eq(dunningEmails.companyId, companyId),
+    ];
+    if (invoiceId) conditions.push(eq(dunningEmails.invoiceId, invoiceId));
+    return this.db
+      .select()
+      .from(dunningEmails)
+      .where(and(...conditions))
+      .orderBy(desc(dunningEmails.createdAt), desc(dunningEmails.id));
+  }
+
+  async getDunningStates(portalId: string, companyId: string): Promise<DunningState[]> {
+    return this.db
+      .select()
+      .from(dunningStates)
+      .where(and(eq(dunningStates.portalId, portalId), eq(dunningStates.companyId, companyId)));
+  }
+
+  async saveDunningState(state: InsertDunningState): Promise<void> {
+    await this.db
+      .insert(dunningStates)
+      .values(state)
+      .onConflictDoUpdate({
+        target: [dunningStates.portalId, dunningStates.invoiceId],
+        set: { ...state, updatedAt: new Date() },
+      });
+  }
+
+  async addDunningEvent(event: InsertDunningEvent): Promise<DunningEvent> {
+    const rows = await this.db.insert(dunningEvents).values(event).returning();
+    return rows[0];
+  }
+
+  async getDunningEvents(portalId: string, companyId: string): Promise<DunningEvent[]> {
+    return this.db
+      .select()
+      .from(dunningEvents)
+      .where(and(eq(dunningEvents.portalId, portalId), eq(dunningEvents.companyId, companyId)))
+      .orderBy(desc(dunningEvents.createdAt), desc(dunningEvents.id));
+  }
+
+  async getDunningPauses(portalId: string): Promise<DunningPause[]> {
+    return this.db.select().from(dunningPauses).where(eq(dunningPauses.portalId, portalId));
+  }
+
+  async getDunningPause(portalId: string, companyId: string): Promise<DunningPause | null> {
+    const rows = await this.db
+      .select()
+      .from(dunningPauses)
+      .where(and(eq(dunningPauses.portalId, portalId), eq(dunningPauses.companyId, companyId)))
+      .limit(1);
+    return rows[0] || null;
+  }
+
+  async saveDunningPause(pause: InsertDunningPause): Promise<DunningPause> {
+    const rows = await this.db
+      .insert(dunningPauses)
+      .values(pause)
+      .onConflictDoUpdate({
+        target: [dunningPauses.portalId, dunningPauses.companyId],
+        set: { reason: pause.reason, pausedBy: pause.pausedBy, createdAt: new Date() },
+      })
+      .returning();
+    return rows[0];
+  }
+
+  async deleteDunningPause(portalId: string, companyId: string): Promise<void> {
+    await this.db
+      .delete(dunningPauses)
+      .where(and(eq(dunningPauses.portalId, portalId), eq(dunningPauses.companyId, companyId)));
+  }
+
+  async getInvoiceDisputes(portalId: string, companyId: string): Promise<InvoiceDispute[]> {
+    return this.db
+      .select()
+      .from(invoiceDisputes)
+      .where(
+        and(eq(invoiceDisputes.portalId, portalId), eq(invoiceDisputes.companyId, companyId))
+      );
+  }
+
+  async getInvoiceDispute(portalId: string, invoiceId: string): Promise<InvoiceDispute | null> {
+    const rows = await this.db
+      .select()
+      .from(invoiceDisputes)
+      .where(
+        and(eq(invoiceDisputes.portalId, portalId), eq(invoiceDisputes.invoiceId, invoiceId))
+      )
+      .limit(1);
+    return rows[0] || null;
+  }
+
+  async getOpenDisputes(portalId: string): Promise<InvoiceDispute[]> {
+    return this.db
+      .select()
+      .from(invoiceDisputes)
+      .where(
+        and(
+          eq(invoiceDisputes.portalId, portalId),
+          inArray(invoiceDisputes.status, OPEN_DISPUTE_STATUSES)
+        )
+      )
+      .orderBy(desc(invoiceDisputes.updatedAt));
+  }
+
+  async saveInvoiceDispute(dispute: InsertInvoiceDispute): Promise<InvoiceDispute> {
+    const now = new Date();
+    const { openedBy, ...patch } = dispute;
+    const rows = await this.db
+      .insert(invoiceDisputes)
+      .values(dispute)
+      .onConflictDoUpdate({
+        target: [invoiceDisputes.portalId, invoiceDisputes.invoiceId],
+        set: {
+          ...patch,
+          updatedAt: now,
+          resolvedAt: isOpenDispute(dispute.status) ? null : now,
+        },
+      })
+      .returning();
+    return rows[0];
+  }
+}
+
+/**
+ * Wraps any IStorage so access/refresh tokens are encrypted before they reach it.
+ */
+export class EncryptedStorage implements IStorage {
+  constructor(private inner: IStorage, private ring: Keyring) {}
+
+  private decrypt(token: HubspotToken): HubspotToken {
+    return {
+      ...token,
+      accessToken: decryptValue(this.ring, token.accessToken),
+      refreshToken: decryptValue(this.ring, token.refreshToken),
+    };
+  }
+
+  async listTokens(): Promise<HubspotToken[]> {
+    const tokens = await this.inner.listTokens();
+    return tokens.map((t) => this.decrypt(t));
+  }
+
+  async getToken(portalId: string): Promise<HubspotToken | null> {
+    const token = await this.inner.getToken(portalId);
+    return token ? this.decrypt(token) : null;
+  }
+
+  async saveToken(token: InsertHubspotToken): Promise<void> {
+    await this.inner.saveToken({
+      ...token,
+      accessToken: encryptValue(this.ring, token.accessToken),
+      refreshToken: encryptValue(this.ring, token.refreshToken),
+    });
+  }
+
+  async deleteToken(portalId: string): Promise<void> {
+    await this.inner.deleteToken(portalId);
+  }
+
+  getSettings(portalId: string): Promise<PortalSettings | null> {
+    return this.inner.getSettings(portalId);
+  }
+
+  saveSettings(portalId: string, settings: PortalSettings): Promise<void> {
+    return this.inner.saveSettings(portalId, settings);
+  }
+
+  addAuditEvents(events: InsertAuditEvent[]): Promise<void> {
+    return this.inner.addAuditEvents(events);
+  }
+
+  getAuditEvents(portalId: string, companyId: string): Promise<AuditEvent[]> {
+    return this.inner.getAuditEvents(portalId, companyId);
+  }
+
+  addPendingWriteOffs(items: InsertPendingWriteOff[]): Promise<number> {
+    return this.inner.addPendingWriteOffs(items);
+  }
+
+  getPendingWriteOffs(portalId: string): Promise<PendingWriteOff[]> {
+    return this.inner.getPendingWriteOffs(portalId);
+  }
+
+  getPendingWriteOff(portalId: string, id: number): Promise<PendingWriteOff | null> {
+    return this.inner.getPendingWriteOff(portalId, id);
+  }
+
+  deletePendingWriteOff(portalId: string, id: number): Promise<void> {
+    return this.inner.deletePendingWriteOff(portalId, id);
+  }
+
+  createWriteOffRequest(request: InsertWriteOffRequest): Promise<WriteOffRequest> {
+    return this.inner.createWriteOffRequest(request);
+  }
+
+  getWriteOffRequests(
+    portalId: string,
+    status?: WriteOffRequestStatus
+  ): Promise<WriteOffRequest[]> {
+    return this.inner.getWriteOffRequests(portalId, status);
+  }
+
+  getWriteOffRequest(portalId: string, id: number): Promise<WriteOffRequest | null> {
+    return this.inner.getWriteOffRequest(portalId, id);
+  }
+
+  getOpenWriteOffRequest(portalId: string, invoiceId: string): Promise<WriteOffRequest | null> {
+    return this.inner.getOpenWriteOffRequest(portalId, invoiceId);
+  }
+
+  updateWriteOffRequest(
+    portalId: string,
+    id: number,
+    patch: Partial<InsertWriteOffRequest>,
+    expectedStatus?: WriteOffRequestStatus
+  ): Promise<WriteOffRequest | null> {
+    return this.inner.updateWriteOffRequest(portalId, id, patch, expectedStatus);
+  }
+
+  addDunningEmail(email: InsertDunningEmail): Promise<DunningEmail> {
+    return this.inner.addDunningEmail(email);
+  }
+
+  updateDunningEmail(
+    portalId: string,
+    id: number,
+    patch: Partial<InsertDunningEmail>
+  ): Promise<DunningEmail | null> {
+    return this.inner.updateDunningEmail(portalId, id, patch);
+  }
+
+  getDunningEmails(
+    portalId: string,
+    companyId: string,
+    invoiceId?: string
+  ): Promise<DunningEmail[]> {
+    return this.inner.getDunningEmails(portalId, companyId, invoiceId);
+  }
+
+  getDunningStates(portalId: string, companyId: string): Promise<DunningState[]> {
+    return this.inner.getDunningStates(portalId, companyId);
+  }
+
+  saveDunningState(state: InsertDunningState): Promise<void> {
+    return this.inner.saveDunningState(state);
+  }
+
+  addDunningEvent(event: InsertDunningEvent): Promise<DunningEvent> {
+    return this.inner.addDunningEvent(event);
+  }
+
+  getDunningEvents(portalId: string, companyId: string): Promise<DunningEvent[]> {
+    return this.inner.getDunningEvents(portalId, companyId);
+  }
+
+  getDunningPauses(portalId: string): Promise<DunningPause[]> {
+    return this.inner.getDunningPauses(portalId);
+  }
+
+  getDunningPause(portalId: string, companyId: string): Promise<DunningPause | null> {
+    return this.inner.getDunningPause(portalId, companyId);
+  }
+
+  saveDunningPause(pause: InsertDunningPause): Promise<DunningPause> {
+    return this.inner.saveDunningPause(pause);
+  }
+
+  deleteDunningPause(portalId: string, companyId: string): Promise<void> {
+    return this.inner.deleteDunningPause(portalId, companyId);
+  }
+
+  getInvoiceDisputes(portalId: string, companyId: string): Promise<InvoiceDispute[]> {
+    return this.inner.getInvoiceDisputes(portalId, companyId);
+  }
+
+  getInvoiceDispute(portalId: string, invoiceId: string): Promise<InvoiceDispute | null> {
+    return this.inner.getInvoiceDispute(portalId, invoiceId);
+  }
+
+  getOpenDisputes(portalId: string): Promise<InvoiceDispute[]> {
+    return this.inner.getOpenDisputes(portalId);
+  }
+
+  saveInvoiceDispute(dispute: InsertInvoiceDispute): Promise<InvoiceDispute> {
+    return this.inner.saveInvoiceDispute(dispute);
+  }
+}
+
+/** The underlying store, without encryption. Used by the key rotation script. */
+export const baseStorage: IStorage = db ? new DbStorage(db) : new MemStorage();
+
+if (!keyring) {
+  console.warn(
+    "TOKEN_ENCRYPTION_KEYS not set, OAuth tokens are stored unencrypted"
+  );
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = keyring
+  ? new EncryptedStorage(baseStorage, keyring)
+  : baseStorage;
@@ -1,5 +1,6 @@
 import fs from "fs";
 import path from "path";
+import { keyring, decryptValue, encryptValue } from "./crypto";
 
 const FILE = process.env.TOKEN_STORE_PATH
   ? process.env.TOKEN_STORE_PATH
@@ -15,13 +16,28 @@ export type HubSpotTokens = {
 };
 
 export function loadTokens(): HubSpotTokens | null {
+  let tokens: HubSpotTokens;
   try {
-    return JSON.parse(fs.readFileSync(FILE, "utf8"));
+    tokens = JSON.parse(fs.readFileSync(FILE, "utf8"));
   } catch {
     return null;
   }
+
+  if (!keyring) return tokens;
+  return {
+    ...tokens,
+    access_token: decryptValue(keyring, tokens.access_token),
+    refresh_token: decryptValue(keyring, tokens.refresh_token),
+  };
 }
 
 export function saveTokens(tokens: HubSpotTokens) {
-  fs.writeFileSync(FILE, JSON.stringify(tokens, null, 2));
+  const stored = keyring
+    ? {
+        ...tokens,
+        access_token: encryptValue(keyring, tokens.access_token),
+        refresh_token: encryptValue(keyring, tokens.refresh_token),
+      }
+    : tokens;
+  fs.writeFileSync(FILE, JSON.stringify(stored, null, 2));
 }
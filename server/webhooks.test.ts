@@ -0,0 +1,139 @@
+import fs from "fs";
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import { hubspotWebhookPayloadSchema, type HubSpotWebhookEvent } from "@shared/schema";
+import { handleWebhookEvents, verifyWebhookSignature, webhookSignature } from "./webhooks";
+
+const FIXTURES = path.resolve(import.meta.dirname, "../script/fixtures/webhooks");
+const readFixture = (name: string) => fs.readFileSync(path.join(FIXTURES, name), "utf-8");
+const fixtureEvents = (name: string) => hubspotWebhookPayloadSchema.parse(JSON.parse(readFixture(name)));
+
+describe("verifyWebhookSignature", () => {
+  const url = "https://app.example.com/api/webhooks/hubspot";
+  const secret = "test-secret";
+  const rawBody = readFixture("invoice-paid.json");
+  const now = Date.UTC(2024, 0, 1);
+  const timestamp = String(now);
+  const signature = webhookSignature("POST", url, rawBody, timestamp, secret);
+  const input = { method: "POST", url, rawBody, signature, timestamp, clientSecret: secret, now };
+
+  it("accepts a signed request", () => {
+    expect(verifyWebhookSignature(input)).toBe(true);
+  });
+
+  it("rejects a tampered body", () => {
+    const tampered = rawBody.replace('"paid"', '"open"');
+    expect(tampered).not.toBe(rawBody);
+    expect(verifyWebhookSignature({ ...input, rawBody: tampered })).toBe(false);
+  });
+
+  it("rejects a request signed more than 5 minutes ago", () => {
+    expect(verifyWebhookSignature({ ...input, now: now + 5 * 60 * 1000 })).toBe(true);
+    expect(verifyWebhookSignature({ ...input, now: now + 5 * 60 * 1000 + 1 })).toBe(false);
+  });
+
+  it("rejects a signature made with another secret", () => {
+    expect(verifyWebhookSignature({ ...input, clientSecret: "other-secret" })).toBe(false);
+  });
+
+  it("rejects a request without a signature", () => {
+    expect(verifyWebhookSignature({ ...input, signature: undefined })).toBe(false);
+  });
+});
+
+describe("handleWebhookEvents", () => {
+  // seen events outlive a test, so each one uses its own portal
+  let nextPortalId = 1;
+  const events = (name: string): HubSpotWebhookEvent[] => {
+    const portalId = nextPortalId++;
+    return fixtureEvents(name).map((e) => ({ ...e, portalId }));
+  };
+
+  // The paid invoice is bad debt and the only invoice on its deal and company
+  function paidInvoiceClient() {
+    const update = vi.fn(async () => ({}));
+    const client = {
+      crm: {
+        objects: {
+          batchApi: {
+            read: async (_type: string, { inputs }: { inputs: { id: string }[] }) => ({
+              results: inputs.map(({ id }) => ({ id, properties: { bad_debt: "true" } })),
+            }),
+          },
+          basicApi: {
+            getById: async (_type: string, id: string) => ({ id, properties: { bad_debt: "true" } }),
+            update,
+          },
+        },
+        associations: {
+          v4: {
+            basicApi: {
+              getPage: async (_from: string, id: string, to: string) => ({
+                results: [{ toObjectId: to === "invoices" ? 400000001 : to === "deals" ? 2 : 3 }],
+              }),
+            },
+          },
+        },
+      },
+    } as unknown as HubSpotClient;
+    return { client, update };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("clears bad debt once for a redelivered paid invoice event", async () => {
+    const { client, update } = paidInvoiceClient();
+    const recordAudit = vi.fn(async () => {});
+    const deps = { getClient: vi.fn(async () => client), recordAudit };
+    const paid = events("invoice-paid.json");
+
+    expect(await handleWebhookEvents(paid, deps)).toMatchObject({ processed: 1, duplicates: 0 });
+    expect(await handleWebhookEvents(paid, deps)).toMatchObject({ processed: 0, duplicates: 1 });
+
+    expect(deps.getClient).toHaveBeenCalledTimes(1);
+    expect(update.mock.calls).toEqual([
+      ["invoices", "400000001", { properties: { bad_debt: "false" } }],
+      ["deals", "2", { properties: { bad_debt: "false" } }],
+      ["companies", "3", { properties: { bad_debt: "false" } }],
+    ]);
+    expect(recordAudit).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips repeats within one delivery", async () => {
+    const { client } = paidInvoiceClient();
+    const [event] = events("invoice-paid.json");
+
+    const summary = await handleWebhookEvents([event, event], {
+      getClient: async () => client,
+      recordAudit: async () => {},
+    });
+
+    expect(summary).toEqual({ received: 2, processed: 1, duplicates: 1, ignored: 0, failed: 0 });
+  });
+
+  it("ignores events no handler matches, and remembers them", async () => {
+    const getClient = vi.fn(async () => null);
+    const deps = { getClient, recordAudit: async () => {} };
+    const stageChange = events("deal-stage-change.json");
+
+    expect(await handleWebhookEvents(stageChange, deps)).toMatchObject({ ignored: 1 });
+    expect(await handleWebhookEvents(stageChange, deps)).toMatchObject({ duplicates: 1 });
+    expect(getClient).not.toHaveBeenCalled();
+  });
+
+  it("forgets failed events so a redelivery is processed", async () => {
+    const { client } = paidInvoiceClient();
+    const getClient = vi
+      .fn<(portalId: string) => Promise<HubSpotClient | null>>()
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(client);
+    const deps = { getClient, recordAudit: async () => {} };
+    const paid = events("invoice-paid.json");
+
+    expect(await handleWebhookEvents(paid, deps)).toMatchObject({ failed: 1 });
+    expect(await handleWebhookEvents(paid, deps)).toMatchObject({ processed: 1, duplicates: 0 });
+  });
+});
@@ -0,0 +1,230 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Client as HubSpotClient } from "@hubspot/api-client";
+import type {
+  BadDebtObjectType,
+  HubSpotWebhookEvent,
+  InsertAuditEvent,
+  PortalSettings,
+} from "@shared/schema";
+import {
+  applyBadDebtCascade,
+  planUnmarkSteps,
+  toAuditEvents,
+  type BadDebtStep,
+} from "./bad-debt";
+import { batchReadObjects, readAllAssociations } from "./hubspot";
+import { getPortalSettings } from "./portal";
+
+// HubSpot signs the request time too; older requests are replays
+const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+
+// HubSpot retries failed deliveries for up to a day
+const SEEN_EVENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Object type ids used by generic `object.*` subscriptions
+const OBJECT_TYPE_IDS: Record<string, BadDebtObjectType> = {
+  "0-3": "deal",
+  "0-53": "invoice",
+};
+
+export interface SignatureInput {
+  method: string;
+  url: string;
+  rawBody: string;
+  signature: string | undefined;
+  timestamp: string | undefined;
+  clientSecret: string;
+  now?: number;
+}
+
+/**
+ * HubSpot's v3 request signature: base64 HMAC-SHA256, keyed by the app's client
+ * secret, of method + URL + raw body + timestamp.
+ */
+export function webhookSignature(
+  method: string,
+  url: string,
+  rawBody: string,
+  timestamp: string,
+  clientSecret: string
+): string {
+  return createHmac("sha256", clientSecret)
+    .update(`${method}${url}${rawBody}${timestamp}`)
+    .digest("base64");
+}
+
+export function verifyWebhookSignature(input: SignatureInput): boolean {
+  const { method, url, rawBody, signature, timestamp, clientSecret } = input;
+  if (!signature || !timestamp) return false;
+
+  const sentAt = Number(timestamp);
+  const now = input.now ?? Date.now();
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > MAX_SIGNATURE_AGE_MS) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    webhookSignature(method, url, rawBody, timestamp, clientSecret),
+    "base64"
+  );
+  const actual = Buffer.from(signature, "base64");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const seenEvents = new Map<string, number>();
+
+function pruneSeenEvents() {
+  const cutoff = Date.now() - SEEN_EVENT_TTL_MS;
+  seenEvents.forEach((seenAt, key) => {
+    if (seenAt < cutoff) seenEvents.delete(key);
+  });
+}
+
+/**
+ * Invoice or deal, from either an `invoice.*`/`deal.*` subscription or a
+ * generic `object.*` one.
+ */
+export function eventObjectType(event: HubSpotWebhookEvent): BadDebtObjectType | null {
+  const [prefix] = event.subscriptionType.split(".");
+  if (prefix === "invoice" || prefix === "deal") return prefix;
+  if (prefix === "object" && event.objectTypeId) {
+    return OBJECT_TYPE_IDS[event.objectTypeId] ?? null;
+  }
+  return null;
+}
+
+export interface WebhookContext {
+  client: HubSpotClient;
+  portalKey: string;
+  settings: PortalSettings;
+  recordAudit: (events: InsertAuditEvent[]) => Promise<void>;
+}
+
+interface WebhookHandler {
+  name: string;
+  matches: (event: HubSpotWebhookEvent, settings: PortalSettings) => boolean;
+  handle: (event: HubSpotWebhookEvent, ctx: WebhookContext) => Promise<void>;
+}
+
+const isPropertyChange = (event: HubSpotWebhookEvent) =>
+  event.subscriptionType.endsWith(".propertyChange");
+
+/**
+ * A paid invoice is no longer bad debt: clear it, and its deal and company when
+ * nothing else on them is still bad debt.
+ */
+const clearBadDebtWhenPaid: WebhookHandler = {
+  name: "clear-bad-debt-when-paid",
+  matches: (event, { properties }) =>
+    isPropertyChange(event) &&
+    eventObjectType(event) === "invoice" &&
+    event.propertyName === properties.invoiceStatus &&
+    event.propertyValue?.toLowerCase() === "paid",
+  handle: async (event, { client, portalKey, settings, recordAudit }) => {
+    const property = settings.properties.badDebt;
+    const invoiceId = String(event.objectId);
+
+    const invoice = (await batchReadObjects(client, "invoices", [invoiceId], [property])).get(
+      invoiceId
+    );
+    if (invoice?.properties[property] !== "true") return;
+
+    const [companies, deals] = await Promise.all([
+      readAllAssociations(client, "invoices", invoiceId, "companies", 1),
+      readAllAssociations(client, "invoices", invoiceId, "deals", 1),
+    ]);
+    const companyId = companies.ids[0];
+    const dealId = deals.ids[0] ?? null;
+
+    const steps: BadDebtStep[] = companyId
+      ? await planUnmarkSteps(client, { companyId, invoiceId, dealId }, property)
+      : [{ objectType: "invoice", objectId: invoiceId, value: "false" }];
+
+    const result = await applyBadDebtCascade(client, steps, property);
+    if (companyId) {
+      await recordAudit(
+        toAuditEvents(result, steps, {
+          portalId: portalKey,
+          hubspotUserId: null,
+          companyId,
+          reason: "Invoice paid (webhook)",
+        })
+      );
+    }
+    if (!result.success) {
+      throw new Error(
+        `Failed to clear bad debt: ${Object.values(result.errors).join("; ")}`
+      );
+    }
+  },
+};
+
+const handlers: WebhookHandler[] = [clearBadDebtWhenPaid];
+
+export interface WebhookSummary {
+  received: number;
+  processed: number;
+  duplicates: number;
+  ignored: number;
+  failed: number;
+}
+
+/**
+ * Runs each new event through the handlers that match it. Events seen before
+ * are skipped; failed events are forgotten again so HubSpot's retry gets
+ * another go.
+ */
+export async function handleWebhookEvents(
+  events: HubSpotWebhookEvent[],
+  deps: {
+    getClient: (portalId: string) => Promise<HubSpotClient | null>;
+    recordAudit: (events: InsertAuditEvent[]) => Promise<void>;
+  }
+): Promise<WebhookSummary> {
+  pruneSeenEvents();
+  const summary: WebhookSummary = {
+    received: events.length,
+    processed: 0,
+    duplicates: 0,
+    ignored: 0,
+    failed: 0,
+  };
+
+  for (const event of events) {
+    const key = `${event.portalId}:${event.eventId}`;
+    if (seenEvents.has(key)) {
+      summary.duplicates++;
+      continue;
+    }
+    seenEvents.set(key, Date.now());
+
+    try {
+      const portalKey = String(event.portalId);
+      const settings = await getPortalSettings(portalKey);
+      const matching = handlers.filter((h) => h.matches(event, settings));
+      if (!matching.length) {
+        summary.ignored++;
+        continue;
+      }
+
+      const client = await deps.getClient(portalKey);
+      if (!client) throw new Error(`Portal ${portalKey} is not connected`);
+
+      for (const handler of matching) {
+        await handler.handle(event, {
+          client,
+          portalKey,
+          settings,
+          recordAudit: deps.recordAudit,
+        });
+      }
+      summary.processed++;
+    } catch (e: any) {
+      console.error(`Webhook event ${key} failed:`, e?.response?.body || e);
+      seenEvents.delete(key);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
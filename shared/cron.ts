@@ -0,0 +1,92 @@
+/**
+ * Minimal five-field cron expressions ("minute hour day-of-month month
+ * day-of-week"), evaluated in UTC. Each field takes `*`, numbers, ranges
+ * (`1-5`), lists (`1,15`) and steps (`*\/15`, `0-30/10`). Day-of-week is 0-6
+ * with Sunday as 0 (7 is accepted too). As in classic cron, when both
+ * day-of-month and day-of-week are restricted, either one matching is enough.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+function parseField(field: string, { name, min, max }: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid ${name} "${part}"`);
+
+    const [, range, from, to, step] = match;
+    const start = range === "*" ? min : Number(from);
+    let end = range === "*" ? max : to !== undefined ? Number(to) : start;
+    // "5/15" means from 5 to the end, every 15
+    if (range !== "*" && to === undefined && step !== undefined) end = max;
+    const every = step !== undefined ? Number(step) : 1;
+
+    if (start < min || end > max || start > end || every < 1) {
+      throw new Error(`Invalid ${name} "${part}"`);
+    }
+    for (let v = start; v <= end; v += every) values.add(v);
+  }
+
+  return values;
+}
+
+/** Parses a cron expression, throwing on anything it can't represent. */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron expression needs 5 fields: minute hour day month weekday");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) =>
+    parseField(f, FIELDS[i])
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Whether the schedule fires in the (UTC) minute containing `date`. */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getUTCMinutes())) return false;
+  if (!schedule.hours.has(date.getUTCHours())) return false;
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return dom && dow;
+  return dom || dow;
+}
@@ -0,0 +1,50 @@
+import { DEFAULT_CURRENCY, type CurrencyAmounts } from "./schema";
+
+/**
+ * Money formatting shared by the UI and server-rendered documents.
+ */
+
+export function formatCurrency(
+  v: string | number | null,
+  currency: string | null = DEFAULT_CURRENCY,
+  currencyDisplay: "symbol" | "code" = "symbol"
+) {
+  if (v == null) return "-";
+  const n = typeof v === "number" ? v : Number(v);
+  if (Number.isNaN(n)) return String(v);
+  try {
+    // Intl picks the currency's own minor units (2 for USD, 0 for JPY, ...)
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency || DEFAULT_CURRENCY,
+      currencyDisplay,
+    }).format(n);
+  } catch {
+    // unknown currency code
+    return `${n.toLocaleString("en-US")} ${currency}`;
+  }
+}
+
+/**
+ * Per-currency totals, one amount per currency ("$1,200.00 · €300.00").
+ */
+export function formatAmounts(
+  amounts: CurrencyAmounts,
+  currencyDisplay: "symbol" | "code" = "symbol"
+) {
+  const entries = Object.entries(amounts);
+  if (entries.length === 0) return formatCurrency(0, DEFAULT_CURRENCY, currencyDisplay);
+  return entries
+    .map(([currency, n]) => formatCurrency(n, currency, currencyDisplay))
+    .join(" · ");
+}
+
+/** A calendar day number (days since the epoch, as in shared/overdue) as "Mar 10, 2024". */
+export function formatDay(day: number) {
+  return new Date(day * 24 * 60 * 60 * 1000).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import type { DisputeStatus, Invoice } from "./schema";
+import { buildAgingReport, daysPastDue, isOverdue, overdueCutoff } from "./overdue";
+
+const NY = "America/New_York";
+const BELGRADE = "Europe/Belgrade";
+
+describe("daysPastDue", () => {
+  it.each([
+    // date-only due dates are calendar dates in any zone
+    { dueDate: "2024-03-10", timeZone: "UTC", now: "2024-03-11T12:00:00Z", days: 1 },
+    { dueDate: "2024-03-10", timeZone: NY, now: "2024-03-10T03:30:00Z", days: -1 },
+    { dueDate: "2024-03-10", timeZone: BELGRADE, now: "2024-03-09T23:30:00Z", days: 0 },
+    // New York springs forward on 2024-03-10 and falls back on 2024-11-03
+    { dueDate: "2024-03-09", timeZone: NY, now: "2024-03-11T03:59:00Z", days: 1 },
+    { dueDate: "2024-03-09", timeZone: NY, now: "2024-03-11T04:00:00Z", days: 2 },
+    { dueDate: "2024-11-02", timeZone: NY, now: "2024-11-04T04:59:00Z", days: 1 },
+    { dueDate: "2024-11-02", timeZone: NY, now: "2024-11-04T05:00:00Z", days: 2 },
+    // Belgrade springs forward on 2024-03-31 and falls back on 2024-10-27
+    { dueDate: "2024-03-30", timeZone: BELGRADE, now: "2024-03-31T21:59:00Z", days: 1 },
+    { dueDate: "2024-03-30", timeZone: BELGRADE, now: "2024-03-31T22:00:00Z", days: 2 },
+    { dueDate: "2024-10-26", timeZone: BELGRADE, now: "2024-10-27T22:59:00Z", days: 1 },
+    { dueDate: "2024-10-26", timeZone: BELGRADE, now: "2024-10-27T23:00:00Z", days: 2 },
+    // midnight UTC is HubSpot's date property format, read as that date
+    { dueDate: "2024-03-10T00:00:00.000Z", timeZone: NY, now: "2024-03-11T12:00:00Z", days: 1 },
+    { dueDate: String(Date.UTC(2024, 2, 10)), timeZone: NY, now: "2024-03-11T12:00:00Z", days: 1 },
+    // other instants fall on the portal's local date
+    { dueDate: "2024-03-10T03:00:00Z", timeZone: "UTC", now: "2024-03-11T12:00:00Z", days: 1 },
+    { dueDate: "2024-03-10T03:00:00Z", timeZone: NY, now: "2024-03-11T12:00:00Z", days: 2 },
+    { dueDate: String(Date.UTC(2024, 2, 10, 3)), timeZone: NY, now: "2024-03-11T12:00:00Z", days: 2 },
+    { dueDate: "2024-03-10T23:30:00Z", timeZone: BELGRADE, now: "2024-03-11T12:00:00Z", days: 0 },
+    // unparseable due dates are never past due
+    { dueDate: "not a date", timeZone: "UTC", now: "2024-03-11T12:00:00Z", days: 0 },
+  ])("$dueDate in $timeZone at $now is $days days", ({ dueDate, timeZone, now, days }) => {
+    expect(daysPastDue(dueDate, { timeZone, graceDays: 0 }, new Date(now))).toBe(days);
+  });
+});
+
+describe("isOverdue", () => {
+  const invoice = (
+    hs_due_date: string | null,
+    hs_invoice_status = "open",
+    dispute: DisputeStatus | null = null
+  ) => ({ hs_due_date, hs_invoice_status, dispute });
+
+  it.each([
+    { name: "due yesterday", invoice: invoice("2024-06-14"), graceDays: 0, overdue: true },
+    { name: "due today", invoice: invoice("2024-06-15"), graceDays: 0, overdue: false },
+    { name: "within grace days", invoice: invoice("2024-06-10"), graceDays: 5, overdue: false },
+    { name: "past grace days", invoice: invoice("2024-06-09"), graceDays: 5, overdue: true },
+    { name: "paid", invoice: invoice("2024-01-01", "paid"), graceDays: 0, overdue: false },
+    { name: "status in capitals", invoice: invoice("2024-01-01", "OPEN"), graceDays: 0, overdue: true },
+    { name: "no due date", invoice: invoice(null), graceDays: 0, overdue: false },
+    { name: "dispute opened", invoice: invoice("2024-01-01", "open", "opened"), graceDays: 0, overdue: false },
+    { name: "dispute under review", invoice: invoice("2024-01-01", "open", "under_review"), graceDays: 0, overdue: false },
+    { name: "dispute resolved", invoice: invoice("2024-01-01", "open", "resolved_us"), graceDays: 0, overdue: true },
+  ])("$name: $overdue", ({ invoice, graceDays, overdue }) => {
+    const now = new Date("2024-06-15T12:00:00Z");
+    expect(isOverdue(invoice, { timeZone: "UTC", graceDays }, now)).toBe(overdue);
+  });
+
+  it.each([
+    { now: "2024-06-16T03:59:00Z", overdue: false },
+    { now: "2024-06-16T04:00:00Z", overdue: true },
+  ])("counts grace days from the portal's date at $now", ({ now, overdue }) => {
+    const rule = { timeZone: NY, graceDays: 5 };
+    expect(isOverdue(invoice("2024-06-10"), rule, new Date(now))).toBe(overdue);
+  });
+});
+
+describe("overdueCutoff", () => {
+  it.each([
+    { timeZone: "UTC", graceDays: 0, now: "2024-06-15T12:00:00Z", cutoff: Date.UTC(2024, 5, 15) },
+    { timeZone: "UTC", graceDays: 5, now: "2024-06-15T12:00:00Z", cutoff: Date.UTC(2024, 5, 10) },
+    { timeZone: NY, graceDays: 0, now: "2024-06-16T03:00:00Z", cutoff: Date.UTC(2024, 5, 15) },
+    { timeZone: BELGRADE, graceDays: 0, now: "2024-10-27T23:00:00Z", cutoff: Date.UTC(2024, 9, 28) },
+  ])("$graceDays grace days in $timeZone at $now", ({ timeZone, graceDays, now, cutoff }) => {
+    expect(overdueCutoff({ timeZone, graceDays }, new Date(now))).toBe(cutoff);
+  });
+
+  it("matches isOverdue for HubSpot's midnight UTC due dates", () => {
+    const rule = { timeZone: NY, graceDays: 3 };
+    const now = new Date("2024-03-11T02:00:00Z");
+    const cutoff = overdueCutoff(rule, now);
+
+    for (let day = 1; day <= 10; day++) {
+      const due = Date.UTC(2024, 2, day);
+      const overdue = isOverdue(
+        { hs_due_date: String(due), hs_invoice_status: "open", dispute: null },
+        rule,
+        now
+      );
+      expect(overdue).toBe(due < cutoff);
+    }
+  });
+});
+
+describe("buildAgingReport", () => {
+  const now = new Date("2024-06-30T12:00:00Z");
+  const invoice = (id: string, daysAgo: number, patch: Partial<Invoice> = {}): Invoice => ({
+    id,
+    hs_invoice_number: `INV-${id}`,
+    hs_invoice_status: "open",
+    hs_due_date: new Date(Date.UTC(2024, 5, 30 - daysAgo)).toISOString().slice(0, 10),
+    amount: "100",
+    currency: "USD",
+    ...patch,
+  });
+
+  it("buckets overdue invoices by days past due", () => {
+    const report = buildAgingReport(
+      [
+        invoice("1", 30),
+        invoice("2", 31),
+        invoice("3", 90),
+        invoice("4", 91, { currency: "EUR" }),
+        invoice("5", 0),
+        invoice("6", 120, { dispute: "opened" }),
+        invoice("7", 120, { hs_invoice_status: "paid", bad_debt: "true" }),
+      ],
+      { timeZone: "UTC", graceDays: 0 },
+      now
+    );
+
+    expect(report.buckets.map((b) => [b.label, b.count])).toEqual([
+      ["0-30", 1],
+      ["31-60", 1],
+      ["61-90", 1],
+      ["90+", 1],
+    ]);
+    expect(report.buckets[3].amounts).toEqual({ EUR: 100 });
+    expect(report.totalOutstanding).toEqual({ count: 6, amounts: { USD: 500, EUR: 100 } });
+    expect(report.writtenOff).toEqual({ count: 1, amounts: { USD: 100 } });
+    expect(report.oldestOverdue).toMatchObject({ invoiceId: "4", daysPastDue: 91 });
+  });
+});
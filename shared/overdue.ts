@@ -0,0 +1,171 @@
+import { DEFAULT_CURRENCY, isOpenDispute } from "./schema";
+import type {
+  AgingBucket,
+  AgingReport,
+  AmountTotal,
+  CurrencyAmounts,
+  Invoice,
+} from "./schema";
+
+/**
+ * Overdue and aging rules shared by server and client.
+ *
+ * An invoice is overdue when its status is "open", it isn't under an open
+ * dispute, and it is more than `graceDays` calendar days past its due date,
+ * where "today" is the current date in the portal's time zone. Days are counted on calendar dates, so DST
+ * changes never shift a result.
+ *
+ * Due dates may be date-only ("2024-03-10"), ISO datetimes or epoch ms.
+ * HubSpot stores date properties as midnight UTC, so a value that is exactly
+ * midnight UTC is read as that calendar date; any other time is converted to
+ * the portal's time zone first.
+ */
+
+export interface OverdueRule {
+  timeZone: string; // IANA zone, e.g. "Europe/Belgrade"
+  graceDays: number;
+}
+
+export const DEFAULT_OVERDUE_RULE: OverdueRule = { timeZone: "UTC", graceDays: 0 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+type InvoiceLike = Pick<Invoice, "hs_invoice_status" | "hs_due_date" | "dispute">;
+
+/** Calendar date of an instant in a time zone, as days since the epoch. */
+function dayNumberInZone(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day")) / DAY_MS;
+}
+
+function parseDueDate(value: string): Date | null {
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Calendar day number of a due date, or null when it can't be parsed. */
+export function dueDayNumber(dueDate: string, timeZone: string): number | null {
+  const m = DATE_ONLY.exec(dueDate);
+  if (m) return Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) / DAY_MS;
+
+  const date = parseDueDate(dueDate);
+  if (!date) return null;
+  if (date.getTime() % DAY_MS === 0) return date.getTime() / DAY_MS;
+  return dayNumberInZone(date, timeZone);
+}
+
+export function todayDayNumber(rule: OverdueRule, now = new Date()): number {
+  return dayNumberInZone(now, rule.timeZone);
+}
+
+/**
+ * Whole calendar days past the due date (0 or less when not yet due).
+ */
+export function daysPastDue(
+  dueDate: string,
+  rule: OverdueRule = DEFAULT_OVERDUE_RULE,
+  now = new Date()
+): number {
+  const due = dueDayNumber(dueDate, rule.timeZone);
+  if (due === null) return 0;
+  return todayDayNumber(rule, now) - due;
+}
+
+export function isOverdue(
+  invoice: InvoiceLike,
+  rule: OverdueRule = DEFAULT_OVERDUE_RULE,
+  now = new Date()
+): boolean {
+  if (
+    invoice.hs_invoice_status.toLowerCase() !== "open" ||
+    !invoice.hs_due_date ||
+    isOpenDispute(invoice.dispute)
+  ) {
+    return false;
+  }
+  return daysPastDue(invoice.hs_due_date, rule, now) > rule.graceDays;
+}
+
+/**
+ * Epoch ms to search HubSpot with (`hs_due_date < cutoff`) for overdue invoices.
+ */
+export function overdueCutoff(rule: OverdueRule, now = new Date()): number {
+  return (todayDayNumber(rule, now) - rule.graceDays) * DAY_MS;
+}
+
+const AGING_BUCKETS: Array<Pick<AgingBucket, "label" | "minDays" | "maxDays">> = [
+  { label: "0-30", minDays: 0, maxDays: 30 },
+  { label: "31-60", minDays: 31, maxDays: 60 },
+  { label: "61-90", minDays: 61, maxDays: 90 },
+  { label: "90+", minDays: 91, maxDays: null },
+];
+
+function amountOf(invoice: Invoice): number {
+  const n = Number(invoice.amount);
+  return Number.isNaN(n) ? 0 : n;
+}
+
+function addAmount(amounts: CurrencyAmounts, invoice: Invoice) {
+  const currency = invoice.currency || DEFAULT_CURRENCY;
+  amounts[currency] = (amounts[currency] || 0) + amountOf(invoice);
+}
+
+/**
+ * Receivables aging by days past due. Buckets hold exactly the overdue
+ * invoices; outstanding covers every open invoice.
+ */
+export function buildAgingReport(
+  invoices: Invoice[],
+  rule: OverdueRule = DEFAULT_OVERDUE_RULE,
+  now = new Date()
+): AgingReport {
+  const buckets: AgingBucket[] = AGING_BUCKETS.map((b) => ({
+    ...b,
+    count: 0,
+    amounts: {},
+  }));
+  const totalOutstanding: AmountTotal = { count: 0, amounts: {} };
+  const writtenOff: AmountTotal = { count: 0, amounts: {} };
+  let oldestOverdue: AgingReport["oldestOverdue"] = null;
+
+  for (const invoice of invoices) {
+    if (invoice.bad_debt === "true") {
+      writtenOff.count++;
+      addAmount(writtenOff.amounts, invoice);
+    }
+
+    if (invoice.hs_invoice_status.toLowerCase() === "open") {
+      totalOutstanding.count++;
+      addAmount(totalOutstanding.amounts, invoice);
+    }
+
+    if (!isOverdue(invoice, rule, now)) continue;
+
+    const days = daysPastDue(invoice.hs_due_date!, rule, now);
+    const bucket =
+      buckets.find((b) => b.maxDays === null || days <= b.maxDays) ||
+      buckets[buckets.length - 1];
+    bucket.count++;
+    addAmount(bucket.amounts, invoice);
+
+    if (!oldestOverdue || days > oldestOverdue.daysPastDue) {
+      oldestOverdue = {
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.hs_invoice_number,
+        dueDate: invoice.hs_due_date!,
+        daysPastDue: days,
+        amount: amountOf(invoice),
+        currency: invoice.currency || DEFAULT_CURRENCY,
+      };
+    }
+  }
+
+  return { buckets, totalOutstanding, writtenOff, oldestOverdue };
+}
@@ -1,6 +1,8 @@
 import { z } from "zod";
-import { pgTable, text, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, serial, timestamp, index, uniqueIndex, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
+import type { OverdueRule } from "./overdue";
+import { isValidCron } from "./cron";
 
 // OAuth token storage for HubSpot portals
 export const hubspotTokens = pgTable("hubspot_tokens", {
@@ -16,6 +18,461 @@ export const insertHubspotTokenSchema = createInsertSchema(hubspotTokens).omit({
 export type InsertHubspotToken = z.infer<typeof insertHubspotTokenSchema>;
 export type HubspotToken = typeof hubspotTokens.$inferSelect;
 
+// Maps the app's logical fields to the HubSpot property names a portal uses
+export const propertyMappingSchema = z.object({
+  badDebt: z.string().trim().min(1).default("bad_debt"),
+  invoiceNumber: z.string().trim().min(1).default("hs_invoice_number"),
+  invoiceStatus: z.string().trim().min(1).default("hs_invoice_status"),
+  // value of the status property that means "open" (custom status properties use their own)
+  invoiceOpenStatus: z.string().trim().min(1).default("open"),
+  invoiceDueDate: z.string().trim().min(1).default("hs_due_date"),
+  invoiceAmount: z.string().trim().min(1).default("amount"),
+  invoiceCurrency: z.string().trim().min(1).default("hs_currency"),
+  // write-off details, on invoices
+  badDebtCategory: z.string().trim().min(1).default("bad_debt_category"),
+  badDebtNote: z.string().trim().min(1).default("bad_debt_note"),
+  badDebtEffectiveDate: z.string().trim().min(1).default("bad_debt_effective_date"),
+});
+
+export type PropertyMapping = z.infer<typeof propertyMappingSchema>;
+
+// Scheduled scan for invoices overdue beyond a threshold
+export const autoWriteOffSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  // five-field cron, UTC
+  schedule: z
+    .string()
+    .trim()
+    .refine(isValidCron, "Invalid cron expression")
+    .default("0 6 * * *"),
+  overdueDays: z.number().int().min(1).max(3650).default(90),
+  // flag: write off right away; queue: add to the pending write-off review list
+  mode: z.enum(["flag", "queue"]).default("queue"),
+  // only report what would happen
+  dryRun: z.boolean().default(true),
+});
+
+export type AutoWriteOffSettings = z.infer<typeof autoWriteOffSettingsSchema>;
+
+// Write-offs of invoices above the threshold need sign-off
+export const approvalSettingsSchema = z.object({
+  // invoice amount, compared in the invoice's own currency; unset = no approvals
+  threshold: z.number().min(0).optional(),
+  // HubSpot user ids allowed to decide; empty = any user except the requester
+  approverUserIds: z.array(z.string().trim().min(1)).default([]),
+});
+
+export type ApprovalSettings = z.infer<typeof approvalSettingsSchema>;
+
+// Settings are sent as JSON, so the logo is kept well under the body size limit
+export const MAX_STATEMENT_LOGO_LENGTH = 64 * 1024;
+
+// Letterhead of the PDF statement of account
+export const statementSettingsSchema = z.object({
+  // sender name, address and contact lines; the first line is printed bold
+  headerText: z.string().max(1000).optional(),
+  logo: z
+    .string()
+    .regex(/^data:image\/(png|jpeg);base64,/, "Logo must be a PNG or JPEG image")
+    .max(MAX_STATEMENT_LOGO_LENGTH, "Logo is too large (max 48 KB)")
+    .optional(),
+});
+
+export type StatementSettings = z.infer<typeof statementSettingsSchema>;
+
+export const DUNNING_TEMPLATES = ["first_reminder", "final_notice"] as const;
+export type DunningTemplateKey = (typeof DUNNING_TEMPLATES)[number];
+
+export const DUNNING_TEMPLATE_LABELS: Record<DunningTemplateKey, string> = {
+  first_reminder: "First reminder",
+  final_notice: "Final notice",
+};
+
+// Placeholders usable as {{name}} in reminder subjects and bodies
+export const DUNNING_MERGE_FIELDS = [
+  "company.name",
+  "contact.firstName",
+  "contact.name",
+  "invoice.number",
+  "invoice.amount",
+  "invoice.dueDate",
+  "invoice.daysOverdue",
+  "sender.name",
+] as const;
+
+export const dunningTemplateSchema = z.object({
+  subject: z.string().trim().min(1, "Subject is required").max(300),
+  body: z.string().trim().min(1, "Body is required").max(10000),
+});
+
+export type DunningTemplate = z.infer<typeof dunningTemplateSchema>;
+
+const DEFAULT_DUNNING_TEMPLATES: Record<DunningTemplateKey, DunningTemplate> = {
+  first_reminder: {
+    subject: "Payment reminder: invoice {{invoice.number}}",
+    body: [
+      "Dear {{contact.name}},",
+      "",
+      "Our records show that invoice {{invoice.number}} for {{invoice.amount}}, due on {{invoice.dueDate}}, is now {{invoice.daysOverdue}} days overdue.",
+      "",
+      "If you have already paid, please disregard this message. Otherwise we would appreciate payment at your earliest convenience.",
+      "",
+      "Kind regards,",
+      "{{sender.name}}",
+    ].join("\n"),
+  },
+  final_notice: {
+    subject: "Final notice: invoice {{invoice.number}} is {{invoice.daysOverdue}} days overdue",
+    body: [
+      "Dear {{contact.name}},",
+      "",
+      "Despite earlier reminders, invoice {{invoice.number}} for {{invoice.amount}}, due on {{invoice.dueDate}}, remains unpaid.",
+      "",
+      "Please settle the full amount within 7 days. If we do not receive payment, we may pass the debt on to a collections agency.",
+      "",
+      "Regards,",
+      "{{sender.name}}",
+    ].join("\n"),
+  },
+};
+
+export const DUNNING_ACTIONS = ["email", "collections", "write_off"] as const;
+export type DunningAction = (typeof DUNNING_ACTIONS)[number];
+
+export const DUNNING_ACTION_LABELS: Record<DunningAction, string> = {
+  email: "Send reminder",
+  collections: "Collections hand-off",
+  write_off: "Write-off",
+};
+
+// One escalation step, reached `day` calendar days after the invoice's due date
+export const dunningStageSchema = z
+  .object({
+    day: z.number().int().min(0).max(3650),
+    action: z.enum(DUNNING_ACTIONS),
+    // email stages only
+    template: z.enum(DUNNING_TEMPLATES).optional(),
+  })
+  .refine((s) => s.action !== "email" || !!s.template, "Email stages need a template");
+
+export type DunningStage = z.infer<typeof dunningStageSchema>;
+
+const DEFAULT_DUNNING_STAGES: DunningStage[] = [
+  { day: 7, action: "email", template: "first_reminder" },
+  { day: 30, action: "email", template: "final_notice" },
+  { day: 60, action: "collections" },
+  { day: 90, action: "write_off" },
+];
+
+/** What a stage does, for logs and the UI. */
+export function dunningStageLabel(stage: Pick<DunningStage, "action" | "template">): string {
+  if (stage.action === "email") {
+    return stage.template ? DUNNING_TEMPLATE_LABELS[stage.template] : "Reminder";
+  }
+  return DUNNING_ACTION_LABELS[stage.action];
+}
+
+// Payment reminder emails; the sender address itself comes from MAIL_FROM
+export const dunningSettingsSchema = z.object({
+  // display name on the From header and {{sender.name}}
+  fromName: z.string().trim().max(200).optional(),
+  replyTo: z.string().trim().email("Reply-to must be an email address").optional(),
+  templates: z
+    .object({
+      first_reminder: dunningTemplateSchema.default(DEFAULT_DUNNING_TEMPLATES.first_reminder),
+      final_notice: dunningTemplateSchema.default(DEFAULT_DUNNING_TEMPLATES.final_notice),
+    })
+    .default({}),
+  // run the escalation stages on a schedule
+  enabled: z.boolean().default(false),
+  // five-field cron, UTC
+  schedule: z
+    .string()
+    .trim()
+    .refine(isValidCron, "Invalid cron expression")
+    .default("0 7 * * *"),
+  stages: z
+    .array(dunningStageSchema)
+    .max(10)
+    .refine(
+      (stages) => new Set(stages.map((s) => s.day)).size === stages.length,
+      "Each dunning stage needs its own day"
+    )
+    .transform((stages) => [...stages].sort((a, b) => a.day - b.day))
+    .default(DEFAULT_DUNNING_STAGES),
+});
+
+export type DunningSettings = z.infer<typeof dunningSettingsSchema>;
+
+export const portalSettingsSchema = z.object({
+  properties: propertyMappingSchema.default({}),
+  overdueGraceDays: z.number().int().min(0).max(365).optional(),
+  autoWriteOff: autoWriteOffSettingsSchema.default({}),
+  approval: approvalSettingsSchema.default({}),
+  statement: statementSettingsSchema.default({}),
+  dunning: dunningSettingsSchema.default({}),
+});
+
+export type PortalSettings = z.infer<typeof portalSettingsSchema>;
+
+// Per-portal settings, stored next to the portal's tokens
+export const portalSettings = pgTable("portal_settings", {
+  portalId: text("portal_id").primaryKey(),
+  settings: jsonb("settings").$type<PortalSettings>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Audit trail of every bad_debt change made through the app
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    id: serial("id").primaryKey(),
+    portalId: text("portal_id").notNull(),
+    hubspotUserId: text("hubspot_user_id"),
+    companyId: text("company_id").notNull(),
+    objectType: text("object_type").notNull(), // invoice, deal, company
+    objectId: text("object_id").notNull(),
+    oldValue: text("old_value"),
+    newValue: text("new_value"),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("audit_events_company_idx").on(t.portalId, t.companyId)]
+);
+
+// Invoices the scheduled scan found overdue, waiting for someone to write them off
+export const pendingWriteOffs = pgTable(
+  "pending_write_offs",
+  {
+    id: serial("id").primaryKey(),
+    portalId: text("portal_id").notNull(),
+    companyId: text("company_id").notNull(),
+    invoiceId: text("invoice_id").notNull(),
+    dealId: text("deal_id"),
+    invoiceNumber: text("invoice_number"),
+    amount: text("amount"),
+    currency: text("currency"),
+    dueDate: text("due_date"),
+    daysPastDue: integer("days_past_due").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [uniqueIndex("pending_write_offs_invoice_idx").on(t.portalId, t.invoiceId)]
+);
+
+export const insertPendingWriteOffSchema = createInsertSchema(pendingWriteOffs).omit({ id: true, createdAt: true });
+export type InsertPendingWriteOff = z.infer<typeof insertPendingWriteOffSchema>;
+export type PendingWriteOff = typeof pendingWriteOffs.$inferSelect;
+
+export const WRITE_OFF_CATEGORIES = [
+  "customer_insolvency",
+  "dispute",
+  "uncollectable",
+  "other",
+] as const;
+
+export type WriteOffCategory = (typeof WRITE_OFF_CATEGORIES)[number];
+
+export const WRITE_OFF_CATEGORY_LABELS: Record<WriteOffCategory, string> = {
+  customer_insolvency: "Customer insolvency",
+  dispute: "Dispute",
+  uncollectable: "Uncollectable",
+  other: "Other",
+};
+
+export const WRITE_OFF_REQUEST_STATUSES = ["requested", "approved", "rejected", "applied"] as const;
+export type WriteOffRequestStatus = (typeof WRITE_OFF_REQUEST_STATUSES)[number];
+
+// Write-offs above the approval threshold: requested -> approved/rejected -> applied
+export const writeOffRequests = pgTable(
+  "write_off_requests",
+  {
+    id: serial("id").primaryKey(),
+    portalId: text("portal_id").notNull(),
+    companyId: text("company_id").notNull(),
+    invoiceId: text("invoice_id").notNull(),
+    dealId: text("deal_id"),
+    invoiceNumber: text("invoice_number"),
+    amount: text("amount"),
+    currency: text("currency"),
+    status: text("status").$type<WriteOffRequestStatus>().notNull().default("requested"),
+    reason: text("reason"),
+    // write-off details to apply with the cascade
+    category: text("category").$type<WriteOffCategory>(),
+    note: text("note"),
+    effectiveDate: text("effective_date"),
+    requestedBy: text("requested_by"),
+    decidedBy: text("decided_by"),
+    decisionNote: text("decision_note"),
+    decidedAt: timestamp("decided_at"),
+    appliedAt: timestamp("applied_at"),
+    // last failed attempt to apply an approved request
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("write_off_requests_status_idx").on(t.portalId, t.status)]
+);
+
+export const insertWriteOffRequestSchema = createInsertSchema(writeOffRequests, {
+  status: z.enum(WRITE_OFF_REQUEST_STATUSES),
+  category: z.enum(WRITE_OFF_CATEGORIES).nullable().optional(),
+}).omit({ id: true, createdAt: true });
+export type InsertWriteOffRequest = z.infer<typeof insertWriteOffRequestSchema>;
+export type WriteOffRequest = typeof writeOffRequests.$inferSelect;
+
+export const DUNNING_EMAIL_STATUSES = ["sent", "failed"] as const;
+export type DunningEmailStatus = (typeof DUNNING_EMAIL_STATUSES)[number];
+
+// Send log of payment reminders, one row per attempt
+export const dunningEmails = pgTable(
+  "dunning_emails",
+  {
+    id: serial("id").primaryKey(),
+    portalId: text("portal_id").notNull(),
+    companyId: text("company_id").notNull(),
+    invoiceId: text("invoice_id").notNull(),
+    template: text("template").$type<DunningTemplateKey>().notNull(),
+    recipient: text("recipient").notNull(),
+    subject: text("subject").notNull(),
+    status: text("status").$type<DunningEmailStatus>().notNull(),
+    error: text("error"),
+    messageId: text("message_id"),
+    // HubSpot email engagement logged for the reminder
+    engagementId: text("engagement_id"),
+    sentBy: text("sent_by"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("dunning_emails_invoice_idx").on(t.portalId, t.invoiceId)]
+);
+
+export const insertDunningEmailSchema = createInsertSchema(dunningEmails, {
+  template: z.enum(DUNNING_TEMPLATES),
+  status: z.enum(DUNNING_EMAIL_STATUSES),
+}).omit({ id: true, createdAt: true });
+export type InsertDunningEmail = z.infer<typeof insertDunningEmailSchema>;
+export type DunningEmail = typeof dunningEmails.$inferSelect;
+
+// Escalation stage each invoice has reached
+export const dunningStates = pgTable(
+  "dunning_states",
+  {
+    portalId: text("portal_id").notNull(),
+    invoiceId: text("invoice_id").notNull(),
+    companyId: text("company_id").notNull(),
+    // day of the last stage carried out
+    stageDay: integer("stage_day").notNull(),
+    action: text("action").$type<DunningAction>().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => [
+    uniqueIndex("dunning_states_invoice_idx").on(t.portalId, t.invoiceId),
+    index("dunning_states_company_idx").on(t.portalId, t.companyId),
+  ]
+);
+
+export const insertDunningStateSchema = createInsertSchema(dunningStates, {
+  action: z.enum(DUNNING_ACTIONS),
+}).omit({ updatedAt: true });
+export type InsertDunningState = z.infer<typeof insertDunningStateSchema>;
+export type DunningState = typeof dunningStates.$inferSelect;
+
+export const DUNNING_EVENT_STATUSES = ["done", "requested", "failed"] as const;
+export type DunningEventStatus = (typeof DUNNING_EVENT_STATUSES)[number];
+
+// Timeline of dunning steps per invoice: stages carried out and manual reminders
+export const dunningEvents = pgTable(
+  "dunning_events",
+  {
+    id: serial("id").primaryKey(),
+    portalId: text("portal_id").notNull(),
+    companyId: text("company_id").notNull(),
+    invoiceId: text("invoice_id").notNull(),
+    // null for manual reminders
+    stageDay: integer("stage_day"),
+    action: text("action").$type<DunningAction>().notNull(),
+    status: text("status").$type<DunningEventStatus>().notNull(),
+    message: text("message"),
+    userId: text("user_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("dunning_events_company_idx").on(t.portalId, t.companyId)]
+);
+
+export const insertDunningEventSchema = createInsertSchema(dunningEvents, {
+  action: z.enum(DUNNING_ACTIONS),
+  status: z.enum(DUNNING_EVENT_STATUSES),
+}).omit({ id: true, createdAt: true });
+export type InsertDunningEvent = z.infer<typeof insertDunningEventSchema>;
+export type DunningEvent = typeof dunningEvents.$inferSelect;
+
+// Companies whose dunning is on hold, e.g. while a dispute is open
+export const dunningPauses = pgTable(
+  "dunning_pauses",
+  {
+    portalId: text("portal_id").notNull(),
+    companyId: text("company_id").notNull(),
+    reason: text("reason"),
+    pausedBy: text("paused_by"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [uniqueIndex("dunning_pauses_company_idx").on(t.portalId, t.companyId)]
+);
+
+export const insertDunningPauseSchema = createInsertSchema(dunningPauses).omit({ createdAt: true });
+export type InsertDunningPause = z.infer<typeof insertDunningPauseSchema>;
+export type DunningPause = typeof dunningPauses.$inferSelect;
+
+export const DISPUTE_STATUSES = ["opened", "under_review", "resolved_customer", "resolved_us"] as const;
+export type DisputeStatus = (typeof DISPUTE_STATUSES)[number];
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  opened: "Opened",
+  under_review: "Under review",
+  resolved_customer: "Resolved in customer's favour",
+  resolved_us: "Resolved in our favour",
+};
+
+// While open, a disputed invoice isn't counted overdue, written off in bulk or chased
+export const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ["opened", "under_review"];
+
+export function isOpenDispute(status: DisputeStatus | null | undefined): boolean {
+  return !!status && OPEN_DISPUTE_STATUSES.includes(status);
+}
+
+// Customer disputes, one per invoice; invoice number and amount as of the last change
+export const invoiceDisputes = pgTable(
+  "invoice_disputes",
+  {
+    id: serial("id").primaryKey(),
+    portalId: text("portal_id").notNull(),
+    companyId: text("company_id").notNull(),
+    invoiceId: text("invoice_id").notNull(),
+    invoiceNumber: text("invoice_number"),
+    amount: text("amount"),
+    currency: text("currency"),
+    status: text("status").$type<DisputeStatus>().notNull(),
+    note: text("note"),
+    openedBy: text("opened_by"),
+    updatedBy: text("updated_by"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    resolvedAt: timestamp("resolved_at"),
+  },
+  (t) => [
+    uniqueIndex("invoice_disputes_invoice_idx").on(t.portalId, t.invoiceId),
+    index("invoice_disputes_status_idx").on(t.portalId, t.status),
+  ]
+);
+
+export const insertInvoiceDisputeSchema = createInsertSchema(invoiceDisputes, {
+  status: z.enum(DISPUTE_STATUSES),
+}).omit({ id: true, createdAt: true, updatedAt: true, resolvedAt: true });
+export type InsertInvoiceDispute = z.infer<typeof insertInvoiceDisputeSchema>;
+export type InvoiceDispute = typeof invoiceDisputes.$inferSelect;
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({ id: true, createdAt: true });
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
 export const markBadDebtRequestSchema = z.object({
   companyId: z.string().min(1, "Company ID is required"),
   badDebt: z.union([z.boolean(), z.string(), z.number()]),
@@ -23,15 +480,243 @@ export const markBadDebtRequestSchema = z.object({
 
 export type MarkBadDebtRequest = z.infer<typeof markBadDebtRequestSchema>;
 
-// Mark bad debt on specific invoice (cascades to deal and company)
-export const markInvoiceBadDebtRequestSchema = z.object({
+// Why an invoice is written off; stored on the invoice and in a CRM note
+export const writeOffDetailsSchema = z.object({
+  category: z.enum(WRITE_OFF_CATEGORIES, {
+    errorMap: () => ({ message: "Reason category is required" }),
+  }),
+  note: z.string().trim().max(2000).optional(),
+  // YYYY-MM-DD, today when omitted
+  effectiveDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Effective date must be YYYY-MM-DD")
+    .optional(),
+});
+
+export type WriteOffDetails = z.infer<typeof writeOffDetailsSchema>;
+
+// Writing off a queued invoice; the scan found it overdue, so "uncollectable" unless told otherwise
+export const applyPendingWriteOffRequestSchema = writeOffDetailsSchema.extend({
+  category: writeOffDetailsSchema.shape.category.default("uncollectable"),
+});
+
+const invoiceTargetSchema = z.object({
   companyId: z.string().min(1, "Company ID is required"),
   invoiceId: z.string().min(1, "Invoice ID is required"),
   dealId: z.string().nullable().optional(),
 });
 
+// Mark bad debt on specific invoice (cascades to deal and company)
+export const markInvoiceBadDebtRequestSchema = invoiceTargetSchema.merge(writeOffDetailsSchema);
+
 export type MarkInvoiceBadDebtRequest = z.infer<typeof markInvoiceBadDebtRequestSchema>;
 
+// Reverse a bad-debt write-off on an invoice (clears deal/company only when nothing else is bad debt)
+export const unmarkInvoiceBadDebtRequestSchema = invoiceTargetSchema.extend({
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+export type UnmarkInvoiceBadDebtRequest = z.infer<typeof unmarkInvoiceBadDebtRequestSchema>;
+
+// Write off many invoices of a company at once, by id or "all overdue older than N days"
+export const bulkMarkInvoiceBadDebtRequestSchema = z
+  .object({
+    companyId: z.string().min(1, "Company ID is required"),
+    invoiceIds: z.array(z.string().min(1)).min(1, "Select at least one invoice").optional(),
+    overdueOlderThanDays: z.number().int().min(0).optional(),
+  })
+  .merge(writeOffDetailsSchema)
+  .refine((d) => d.invoiceIds || d.overdueOlderThanDays !== undefined, {
+    message: "Provide invoiceIds or overdueOlderThanDays",
+  });
+
+export type BulkMarkInvoiceBadDebtRequest = z.infer<typeof bulkMarkInvoiceBadDebtRequestSchema>;
+
+export type BadDebtObjectType = "invoice" | "deal" | "company";
+
+// Outcome of the bad_debt write on one object of a cascade
+export interface BadDebtObjectResult {
+  objectType: BadDebtObjectType;
+  objectId: string;
+  previous: string | null;
+  updated: boolean;
+  rolledBack?: boolean;
+  error?: string;
+  rollbackError?: string;
+}
+
+// HubSpot webhook deliveries are an array of events; unknown fields are kept
+export const hubspotWebhookEventSchema = z
+  .object({
+    eventId: z.number(),
+    portalId: z.number(),
+    objectId: z.number(),
+    subscriptionType: z.string(),
+    objectTypeId: z.string().optional(),
+    propertyName: z.string().optional(),
+    propertyValue: z.string().optional(),
+    occurredAt: z.number().optional(),
+    attemptNumber: z.number().optional(),
+  })
+  .passthrough();
+
+export const hubspotWebhookPayloadSchema = z.array(hubspotWebhookEventSchema);
+
+export type HubSpotWebhookEvent = z.infer<typeof hubspotWebhookEventSchema>;
+
+export const autoWriteOffRunRequestSchema = z.object({
+  // defaults to the portal's setting
+  dryRun: z.boolean().optional(),
+});
+
+// What a scheduled (or manual) scan did, or would do in dry-run, per invoice
+export interface AutoWriteOffItem {
+  invoiceId: string;
+  invoiceNumber: string | null;
+  companyId: string | null;
+  companyName: string | null;
+  amount: string | null;
+  currency: string | null;
+  daysPastDue: number;
+  // requested: above the approval threshold, a write-off request was created
+  action: "flagged" | "queued" | "requested" | "skipped" | "failed";
+  message?: string;
+}
+
+export interface AutoWriteOffRun {
+  portalId: string;
+  trigger: "schedule" | "manual";
+  mode: AutoWriteOffSettings["mode"];
+  dryRun: boolean;
+  overdueDays: number;
+  startedAt: string;
+  finishedAt: string | null;
+  // more candidates than one run handles
+  truncated: boolean;
+  items: AutoWriteOffItem[];
+  error?: string;
+}
+
+export const writeOffRequestsQuerySchema = z.object({
+  status: z.enum(WRITE_OFF_REQUEST_STATUSES).optional(),
+});
+
+export const decideWriteOffRequestSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Send a payment reminder; without `to` it goes to the invoice's (or company's) contact
+export const sendDunningEmailRequestSchema = z.object({
+  companyId: z.string().min(1, "companyId is required"),
+  invoiceId: z.string().min(1, "invoiceId is required"),
+  template: z.enum(DUNNING_TEMPLATES, {
+    errorMap: () => ({ message: "template must be first_reminder or final_notice" }),
+  }),
+  to: z.string().trim().email("to must be an email address").optional(),
+});
+
+export type SendDunningEmailRequest = z.infer<typeof sendDunningEmailRequestSchema>;
+
+export const pauseDunningRequestSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const dunningRunRequestSchema = z.object({
+  // only report what would happen
+  dryRun: z.boolean().default(false),
+});
+
+export interface DunningRunItem {
+  invoiceId: string;
+  invoiceNumber: string | null;
+  companyId: string;
+  daysPastDue: number;
+  stageDay: number;
+  action: DunningAction;
+  // planned: dry run; requested: write-off above the approval threshold
+  status: "planned" | DunningEventStatus;
+  message?: string;
+}
+
+export interface DunningRun {
+  portalId: string;
+  // set for runs of a single company
+  companyId: string | null;
+  trigger: "schedule" | "manual";
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string | null;
+  truncated: boolean;
+  items: DunningRunItem[];
+  error?: string;
+}
+
+// Dunning overview of one company: pause, stage per invoice and timeline
+export interface CompanyDunning {
+  pause: DunningPause | null;
+  states: DunningState[];
+  events: DunningEvent[];
+}
+
+// Open, move along or resolve the dispute on an invoice
+export const saveDisputeRequestSchema = z.object({
+  status: z.enum(DISPUTE_STATUSES, {
+    errorMap: () => ({
+      message: "status must be opened, under_review, resolved_customer or resolved_us",
+    }),
+  }),
+  note: z.string().trim().max(2000).optional(),
+});
+
+export const dunningEmailsQuerySchema = z.object({
+  invoiceId: z.string().optional(),
+});
+
+export interface SendDunningEmailResponse {
+  success: boolean;
+  message: string;
+  email?: DunningEmail;
+  warnings?: string[];
+}
+
+// Provisioning of the bad debt property on each object type
+export interface SetupObjectStatus {
+  objectType: BadDebtObjectType;
+  property: string;
+  status: "exists" | "created" | "missing" | "failed";
+  error?: string;
+}
+
+export interface SetupStatus {
+  property: string;
+  state: "pending" | "complete" | "incomplete" | "failed";
+  objects: SetupObjectStatus[];
+  checkedAt: string | null;
+}
+
+// Portal-wide overdue invoices listing
+export const overdueInvoicesQuerySchema = z.object({
+  sort: z.enum(["daysOverdue", "amount"]).default("daysOverdue"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  after: z.string().optional(),
+});
+
+export type OverdueInvoicesQuery = z.infer<typeof overdueInvoicesQuerySchema>;
+
+// Company invoices/deals export; the searches are the tables' search boxes.
+// XLSX holds both sheets, CSV one `sheet`.
+export const companyExportQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"], {
+    errorMap: () => ({ message: "format must be csv or xlsx" }),
+  }),
+  sheet: z.enum(["invoices", "deals"]).default("invoices"),
+  invoiceSearch: z.string().optional(),
+  dealSearch: z.string().optional(),
+});
+
+export type CompanyExportQuery = z.infer<typeof companyExportQuerySchema>;
+
 export interface MarkBadDebtResponse {
   success: boolean;
   bad_debt?: string;
@@ -39,6 +724,33 @@ export interface MarkBadDebtResponse {
   updatedInvoice?: boolean;
   updatedDeal?: boolean;
   updatedCompany?: boolean;
+  objects?: BadDebtObjectResult[];
+  errors?: Partial<Record<BadDebtObjectType, string>>;
+  // above the approval threshold: nothing was written, a request was created
+  pendingApproval?: boolean;
+  requestId?: number;
+  // the write-off went through but its details or CRM note could not be saved
+  warnings?: string[];
+}
+
+export interface BulkInvoiceBadDebtResult {
+  invoiceId: string;
+  invoiceNumber?: string;
+  success: boolean;
+  message: string;
+  errors?: Partial<Record<BadDebtObjectType, string>>;
+  pendingApproval?: boolean;
+  requestId?: number;
+  // the write-off went through but its details or CRM note could not be saved
+  warnings?: string[];
+}
+
+export interface BulkMarkBadDebtResponse {
+  success: boolean;
+  message: string;
+  results: BulkInvoiceBadDebtResult[];
+  updatedCompany: boolean;
+  companyError?: string;
 }
 
 export interface HealthResponse {
@@ -46,10 +758,17 @@ export interface HealthResponse {
   timestamp?: string;
 }
 
+// Used when a record has no currency code of its own
+export const DEFAULT_CURRENCY = "USD";
+
+// Summed amounts keyed by ISO currency code, never mixed across currencies
+export type CurrencyAmounts = Record<string, number>;
+
 export interface Deal {
   id: string;
   dealname: string;
   amount: string | null;
+  currency: string | null; // deal_currency_code
   dealstage: string;
   closedate: string | null;
   bad_debt?: string | null;
@@ -61,9 +780,24 @@ export interface Invoice {
   hs_invoice_status: string; // draft, open, paid, voided
   hs_due_date: string | null; // ISO date string
   amount: string | null;
+  currency: string | null; // hs_currency
   dealId?: string | null;
   dealName?: string | null;
   bad_debt?: string | null;
+  // set on company data, from the portal's dispute records
+  dispute?: DisputeStatus | null;
+}
+
+export interface OverdueInvoice extends Invoice {
+  companyId: string | null;
+  companyName: string | null;
+  daysPastDue: number;
+}
+
+export interface OverdueInvoicesResponse {
+  results: OverdueInvoice[];
+  total: number;
+  nextAfter: string | null;
 }
 
 export interface Company {
@@ -72,10 +806,43 @@ export interface Company {
   bad_debt: string;
 }
 
+export interface AgingBucket {
+  label: string; // "0-30", "31-60", "61-90", "90+"
+  minDays: number;
+  maxDays: number | null;
+  count: number;
+  amounts: CurrencyAmounts;
+}
+
+export interface AmountTotal {
+  count: number;
+  amounts: CurrencyAmounts;
+}
+
+// Receivables aging, computed server-side from the same overdue rule as overdueCount
+export interface AgingReport {
+  buckets: AgingBucket[];
+  totalOutstanding: AmountTotal; // all open invoices
+  writtenOff: AmountTotal; // invoices flagged bad_debt
+  oldestOverdue: {
+    invoiceId: string;
+    invoiceNumber: string;
+    dueDate: string;
+    daysPastDue: number;
+    amount: number;
+    currency: string;
+  } | null;
+}
+
 export interface CompanyData {
   company: Company | null;
   deals: Deal[];
   invoices: Invoice[];
   overdueCount?: number;
+  aging?: AgingReport;
+  // portal time zone and grace period the overdue numbers were computed with
+  overdueRule?: OverdueRule;
+  // true when an association cap was hit and some deals/invoices were left out
+  truncated?: boolean;
 }
 
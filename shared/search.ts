@@ -0,0 +1,24 @@
+import type { Deal, Invoice } from "./schema";
+
+/**
+ * Search filters of the Invoice Manager tables, shared so exports contain
+ * exactly the rows shown. Matching is a case-insensitive substring match.
+ */
+
+/** Invoices whose number or linked deal name contains `q`. */
+export function filterInvoices<T extends Invoice>(invoices: T[], q?: string): T[] {
+  if (!q) return invoices;
+  const l = q.toLowerCase();
+  return invoices.filter(
+    (i) =>
+      i.hs_invoice_number.toLowerCase().includes(l) ||
+      (i.dealName ?? "").toLowerCase().includes(l)
+  );
+}
+
+/** Deals whose name contains `q`. */
+export function filterDeals<T extends Deal>(deals: T[], q?: string): T[] {
+  if (!q) return deals;
+  const l = q.toLowerCase();
+  return deals.filter((d) => d.dealname.toLowerCase().includes(l));
+}